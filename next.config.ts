@@ -1,5 +1,8 @@
 import type { NextConfig } from "next";
 
+// Media kept in local storage (MEDIA_STORAGE=local) is served by the app itself
+const localMediaUrl = new URL(process.env.MEDIA_PUBLIC_URL || 'http://localhost:3000');
+
 const nextConfig: NextConfig = {
   /* config options here */
   images: {
@@ -10,6 +13,12 @@ const nextConfig: NextConfig = {
         port: '',
         pathname: '/**', // Allows all paths under this hostname
       },
+      {
+        protocol: localMediaUrl.protocol === 'https:' ? 'https' : 'http',
+        hostname: localMediaUrl.hostname,
+        port: localMediaUrl.port,
+        pathname: '/api/media/files/**',
+      },
     ],
   },
 };
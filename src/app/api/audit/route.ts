@@ -0,0 +1,78 @@
+// src/app/api/audit/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Filter, ObjectId } from 'mongodb';
+import { AuditAction, AuditEvent, getAuditEventsCollection } from '@/models/AuditEvent';
+import { requireRole } from '@/lib/auth';
+
+const AUDIT_ACTIONS: AuditAction[] = ['created', 'updated', 'status_changed', 'deleted', 'webhook_call', 'publish_attempt'];
+const MAX_LIMIT = 200;
+
+/**
+ * Lists audit log entries, newest first. Filter by post with ?post_id= (the
+ * dashboard's post timeline) and by ?action=; page back with ?before=<_id> of
+ * the last entry received. Events written together share a created_at, so pages
+ * continue after that entry by (created_at, _id).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // --- 1. AUTHORIZATION CHECK ---
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    // --- 2. Build the filter ---
+    const { searchParams } = new URL(request.url);
+    const postId = searchParams.get('post_id');
+    const action = searchParams.get('action');
+    const before = searchParams.get('before');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, MAX_LIMIT);
+
+    const query: Filter<AuditEvent> = {};
+    if (postId) {
+      if (!ObjectId.isValid(postId)) {
+        return NextResponse.json({ error: 'Invalid post ID' }, { status: 400 });
+      }
+      query.post_id = new ObjectId(postId);
+    }
+    if (action) {
+      if (!AUDIT_ACTIONS.includes(action as AuditAction)) {
+        return NextResponse.json({ error: `action must be one of: ${AUDIT_ACTIONS.join(', ')}` }, { status: 400 });
+      }
+      query.action = action as AuditAction;
+    }
+    const auditEventsCollection = await getAuditEventsCollection();
+    if (before) {
+      if (!ObjectId.isValid(before)) {
+        return NextResponse.json({ error: 'before must be the ID of an audit event' }, { status: 400 });
+      }
+      const cursor = await auditEventsCollection.findOne({ _id: new ObjectId(before) }, { projection: { created_at: 1 } });
+      if (!cursor) {
+        return NextResponse.json({ error: 'Audit event not found' }, { status: 404 });
+      }
+      query.$or = [
+        { created_at: { $lt: cursor.created_at } },
+        { created_at: cursor.created_at, _id: { $lt: cursor._id } },
+      ];
+    }
+
+    // --- 3. Fetch ---
+    const events = await auditEventsCollection
+      .find(query)
+      .sort({ created_at: -1, _id: -1 })
+      .limit(limit)
+      .toArray();
+
+    return NextResponse.json({
+      events: events.map(event => ({
+        ...event,
+        _id: event._id.toString(),
+        post_id: event.post_id.toString(),
+        actor: event.actor && { ...event.actor, user_id: event.actor.user_id.toString() },
+        created_at: event.created_at.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching audit events:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
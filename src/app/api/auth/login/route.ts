@@ -0,0 +1,36 @@
+// src/app/api/auth/login/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsersCollection, normalizeEmail, toPublicUser } from '@/models/User';
+import { verifyPassword } from '@/lib/passwords';
+import { startSession } from '@/lib/auth';
+
+// --- POST: Sign in with email and password ---
+export async function POST(request: NextRequest) {
+  try {
+    const { email, password } = await request.json();
+
+    if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+      return NextResponse.json({ error: 'Email and password are required' }, { status: 400 });
+    }
+
+    const usersCollection = await getUsersCollection();
+    const user = await usersCollection.findOne({ email: normalizeEmail(email) });
+
+    // The same answer for unknown emails and wrong passwords
+    if (!user || !(await verifyPassword(password, user.password_hash))) {
+      return NextResponse.json({ error: 'Invalid email or password.' }, { status: 401 });
+    }
+
+    if (user.disabled) {
+      return NextResponse.json({ error: 'This account has been disabled.' }, { status: 403 });
+    }
+
+    const response = NextResponse.json({ user: toPublicUser(user), message: 'Signed in successfully' });
+    await startSession(response, user._id);
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+// src/app/api/auth/logout/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { endSession } from '@/lib/auth';
+
+// --- POST: Sign out of the current session ---
+export async function POST(request: NextRequest) {
+  try {
+    const response = NextResponse.json({ message: 'Signed out successfully' });
+    await endSession(request, response);
+    return response;
+  } catch (error) {
+    console.error('Error signing out:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
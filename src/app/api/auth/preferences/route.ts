@@ -0,0 +1,40 @@
+// src/app/api/auth/preferences/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsersCollection, toPublicUser } from '@/models/User';
+import { requireRole } from '@/lib/auth';
+import { isValidTimeZone } from '@/lib/timezones';
+
+// --- PUT: Change the signed-in user's own preferences. A null timezone goes back to the browser's ---
+export async function PUT(request: NextRequest) {
+  try {
+    // --- 1. AUTHORIZATION CHECK ---
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    // --- 2. Validate the preferences ---
+    const { timezone } = await request.json();
+    if (timezone !== null && !isValidTimeZone(timezone)) {
+      return NextResponse.json({ error: 'timezone must be an IANA time zone, e.g. Europe/Berlin' }, { status: 400 });
+    }
+
+    // --- 3. Save them ---
+    const usersCollection = await getUsersCollection();
+    const updated = await usersCollection.findOneAndUpdate(
+      { _id: user._id },
+      timezone === null
+        ? { $set: { updated_at: new Date() }, $unset: { timezone: '' } }
+        : { $set: { timezone, updated_at: new Date() } },
+      { returnDocument: 'after' }
+    );
+
+    if (!updated) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ user: toPublicUser(updated), message: 'Preferences saved' });
+  } catch (error) {
+    console.error('Error saving preferences:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+// src/app/api/auth/session/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsersCollection, toPublicUser } from '@/models/User';
+import { getSessionUser } from '@/lib/auth';
+
+// --- GET: The signed-in user, or null. needs_setup is true until the first account exists ---
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    const usersCollection = await getUsersCollection();
+    const needsSetup = !user && (await usersCollection.countDocuments({}, { limit: 1 })) === 0;
+
+    return NextResponse.json({ user: user ? toPublicUser(user) : null, needs_setup: needsSetup });
+  } catch (error) {
+    console.error('Error fetching session:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+// src/app/api/linkedin/mentions/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getLinkedInMentionsCollection } from '@/models/LinkedInMention';
+import { isLinkedInUrn } from '@/lib/linkedinText';
+import { requireRole } from '@/lib/auth';
+
+// --- GET: List the saved people and organizations that can be mentioned ---
+export async function GET() {
+  try {
+    const mentionsCollection = await getLinkedInMentionsCollection();
+    const mentions = await mentionsCollection.find({}).sort({ name: 1 }).toArray();
+
+    return NextResponse.json({
+      mentions: mentions.map(mention => ({
+        ...mention,
+        _id: mention._id.toString(),
+        created_at: mention.created_at.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching LinkedIn mentions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// --- POST: Save a person or organization URN to the catalogue ---
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireRole(request, 'author');
+    if (user instanceof NextResponse) return user;
+
+    const { name, urn } = await request.json();
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+
+    if (typeof urn !== 'string' || !isLinkedInUrn(urn)) {
+      return NextResponse.json(
+        { error: 'URN must look like urn:li:person:<id> or urn:li:organization:<id>' },
+        { status: 400 }
+      );
+    }
+
+    // Saving the same URN again just renames it
+    const mentionsCollection = await getLinkedInMentionsCollection();
+    const mention = await mentionsCollection.findOneAndUpdate(
+      { urn },
+      {
+        $set: { name: name.trim(), type: urn.startsWith('urn:li:person:') ? 'person' : 'organization' },
+        $setOnInsert: { urn, created_at: new Date() },
+      },
+      { upsert: true, returnDocument: 'after' }
+    );
+
+    if (!mention) {
+      throw new Error('Failed to fetch saved mention');
+    }
+
+    return NextResponse.json({
+      mention: {
+        ...mention,
+        _id: mention._id.toString(),
+        created_at: mention.created_at.toISOString(),
+      },
+      message: 'Mention saved successfully',
+    });
+  } catch (error) {
+    console.error('Error saving LinkedIn mention:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// --- DELETE: Remove a saved mention by URN ---
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await requireRole(request, 'author');
+    if (user instanceof NextResponse) return user;
+
+    const { urn } = await request.json();
+
+    if (!urn || typeof urn !== 'string') {
+      return NextResponse.json({ error: 'URN is required' }, { status: 400 });
+    }
+
+    const mentionsCollection = await getLinkedInMentionsCollection();
+    const result = await mentionsCollection.deleteOne({ urn });
+
+    if (result.deletedCount === 0) {
+      return NextResponse.json({ error: 'Mention not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Mention deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting LinkedIn mention:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
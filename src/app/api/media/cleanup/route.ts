@@ -0,0 +1,50 @@
+// src/app/api/media/cleanup/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeDueMediaDeletions, reconcileMediaStorage } from '@/services/mediaCleanupService';
+import { isCronRequest, requireRole } from '@/lib/auth';
+
+/**
+ * Media cleanup job, meant to be called on a schedule (e.g. daily by Make.com)
+ * with "Authorization: Bearer <CRON_SECRET>".
+ * Destroys the files whose deletion grace period has passed, then compares
+ * media storage with the posts and reports the files no post references.
+ * With `purge: true` those orphans are destroyed as well; otherwise the run
+ * only reports them.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // --- 1. AUTHORIZATION CHECK ---
+    // The scheduler authenticates with CRON_SECRET; people need to be admins
+    if (!isCronRequest(request)) {
+      const user = await requireRole(request, 'admin');
+      if (user instanceof NextResponse) return user;
+    }
+
+    // The scheduler may call without a body
+    const { purge } = await request.json().catch(() => ({}));
+
+    // --- 2. Find files no post references ---
+    const now = new Date();
+    const report = await reconcileMediaStorage({ purge: purge === true, now });
+
+    // --- 3. Destroy everything that is due, including purged orphans ---
+    const purged = await purgeDueMediaDeletions(now);
+    console.log(
+      `Media cleanup: ${report.orphaned.length} unreferenced of ${report.scanned} files, ` +
+      `${purged.deleted} deleted, ${purged.kept} kept, ${purged.failed} failed`
+    );
+
+    return NextResponse.json({
+      message: 'Media cleanup completed',
+      report: {
+        ...report,
+        orphaned: report.orphaned.map(asset => ({ ...asset, created_at: asset.created_at.toISOString() })),
+      },
+      purged,
+    });
+  } catch (error) {
+    console.error('Error cleaning up media:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
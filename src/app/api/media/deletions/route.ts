@@ -0,0 +1,51 @@
+// src/app/api/media/deletions/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMediaDeletionsCollection } from '@/models/MediaDeletion';
+import { cancelMediaDeletion } from '@/services/mediaCleanupService';
+import { requireRole } from '@/lib/auth';
+
+// --- GET: List the media files waiting out their deletion grace period ---
+export async function GET() {
+  try {
+    const deletionsCollection = await getMediaDeletionsCollection();
+    const deletions = await deletionsCollection.find({ status: 'scheduled' }).sort({ delete_after: 1 }).toArray();
+
+    return NextResponse.json({
+      deletions: deletions.map(deletion => ({
+        ...deletion,
+        _id: deletion._id.toString(),
+        post_id: deletion.post_id?.toString(),
+        delete_after: deletion.delete_after.toISOString(),
+        created_at: deletion.created_at.toISOString(),
+        updated_at: deletion.updated_at.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching media deletions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// --- DELETE: Cancel a scheduled deletion so the file is kept ---
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await requireRole(request, 'author');
+    if (user instanceof NextResponse) return user;
+
+    const { storage_id } = await request.json();
+
+    if (!storage_id || typeof storage_id !== 'string') {
+      return NextResponse.json({ error: 'storage_id is required' }, { status: 400 });
+    }
+
+    if (!(await cancelMediaDeletion(storage_id))) {
+      return NextResponse.json({ error: 'No scheduled deletion for this file' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Media deletion cancelled' });
+  } catch (error) {
+    console.error('Error cancelling media deletion:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+// src/app/api/media/files/[...path]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { readLocalMedia } from '@/services/storage';
+
+/**
+ * Serves media kept in local storage (MEDIA_STORAGE=local). The path is the
+ * file's storage id. Files never change once stored, so they can be cached.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+  try {
+    const { path } = await params;
+    const file = await readLocalMedia(path.join('/'));
+
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(file.buffer), {
+      headers: {
+        'Content-Type': file.mime_type,
+        'Content-Length': String(file.buffer.length),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving media file:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+// src/app/api/migrations/media-items/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { migrateLegacyPostMedia } from '@/models/SocialMediaPost';
+import { requireRole } from '@/lib/auth';
+
+/**
+ * One-off migration of posts whose post_media is still a list of URLs into
+ * media items. Can be called again safely; already migrated posts are skipped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // --- 1. AUTHORIZATION CHECK ---
+    const user = await requireRole(request, 'admin');
+    if (user instanceof NextResponse) return user;
+
+    // --- 2. Migrate ---
+    const migrated = await migrateLegacyPostMedia();
+    console.log(`Migrated media of ${migrated} posts to media items`);
+
+    return NextResponse.json({ message: 'Media migration completed', migrated });
+  } catch (error) {
+    console.error('Error migrating post media:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
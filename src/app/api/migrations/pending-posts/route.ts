@@ -0,0 +1,27 @@
+// src/app/api/migrations/pending-posts/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { migratePendingPostsToReview } from '@/models/SocialMediaPost';
+import { requireRole } from '@/lib/auth';
+
+/**
+ * One-off migration of posts scheduled before the review workflow existed.
+ * They are put into review, since /api/trigger-posts only publishes approved
+ * posts. Can be called again safely.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // --- 1. AUTHORIZATION CHECK ---
+    const user = await requireRole(request, 'admin');
+    if (user instanceof NextResponse) return user;
+
+    // --- 2. Migrate ---
+    const migrated = await migratePendingPostsToReview();
+    console.log(`Moved ${migrated} pending posts into review`);
+
+    return NextResponse.json({ message: 'Pending posts migration completed', migrated });
+  } catch (error) {
+    console.error('Error migrating pending posts:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+// src/app/api/migrations/timezones/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { migrateTimeZones } from '@/models/SocialMediaPost';
+import { requireRole } from '@/lib/auth';
+
+/**
+ * One-off migration of posts scheduled before posts had a time zone. They get
+ * their team's zone, or the default one. Can be called again safely.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // --- 1. AUTHORIZATION CHECK ---
+    const user = await requireRole(request, 'admin');
+    if (user instanceof NextResponse) return user;
+
+    // --- 2. Migrate ---
+    const migrated = await migrateTimeZones();
+    console.log(`Set the time zone of ${migrated} posts`);
+
+    return NextResponse.json({ message: 'Time zones migration completed', migrated });
+  } catch (error) {
+    console.error('Error migrating time zones:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
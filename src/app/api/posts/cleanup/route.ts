@@ -1,20 +1,80 @@
 // src/app/api/posts/cleanup/route.ts
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getSocialMediaPostsCollection, SocialMediaPost } from '@/models/SocialMediaPost';
+import {
+  getSocialMediaPostsCollection,
+  PlatformResult,
+  getPlatformsDueForPublish,
+  recordPlatformAttempt,
+} from '@/models/SocialMediaPost';
+import { getNextAttemptAt } from '@/lib/retryPolicy';
+import { applyPlatformResults } from '@/services/publishResultService';
+import { recordAuditEvents, summarizeText } from '@/services/auditService';
+import { AuditEvent } from '@/models/AuditEvent';
+import { recordWebhookReceipt } from '@/models/WebhookReceipt';
+import {
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WEBHOOK_TOLERANCE_SECONDS,
+} from '@/lib/webhookSignature';
 import { ObjectId } from 'mongodb';
 
+function rejectWebhook(request: NextRequest, reason: string, status: number) {
+  const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+  console.warn(`Rejected cleanup webhook call from ${ip}: ${reason}`);
+  return NextResponse.json({ error: `Unauthorized: ${reason}` }, { status });
+}
+
 /**
  * This endpoint is called by Make.com after it has attempted to post to social media.
- * It receives the original post_id and the URLs of the successful posts.
- * It then updates the post in the database with the final status and links.
+ * It receives the original post_id and, per platform, either the URL of the published
+ * post (`<platform>_url`) or an error message (`<platform>_error`). Failures are
+ * retried with backoff unless `<platform>_retryable` is false.
+ * It then records the outcome of each platform in platform_results and derives the
+ * final status and links from them. Callbacks for a post that is no longer
+ * 'processing' under the lease it was dispatched with are rejected with 409.
+ *
+ * Requests must be signed with MAKE_WEBHOOK_SECRET (see src/lib/webhookSignature.ts);
+ * unsigned, stale or replayed requests are rejected.
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    // --- 1. SIGNATURE CHECK ---
+    const webhookSecret = process.env.MAKE_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+      console.error('CRITICAL: MAKE_WEBHOOK_SECRET is not set on the server.');
+      return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
+    }
+
+    const rawBody = await request.text();
+    const verification = verifyWebhookSignature(
+      webhookSecret,
+      rawBody,
+      request.headers.get(WEBHOOK_TIMESTAMP_HEADER),
+      request.headers.get(WEBHOOK_SIGNATURE_HEADER)
+    );
+
+    if (!verification.valid) {
+      return rejectWebhook(request, verification.reason, 401);
+    }
+
+    // A signature can only be used once while its timestamp is still accepted
+    const receiptExpiresAt = new Date((verification.timestamp + WEBHOOK_TOLERANCE_SECONDS) * 1000);
+    if (!(await recordWebhookReceipt('make_cleanup', verification.signature, receiptExpiresAt))) {
+      return rejectWebhook(request, 'Replayed request', 409);
+    }
+
+    // --- 2. Process the callback ---
+    let body;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
     
     // The body from Make.com should contain the original post_id and the resulting URLs
-    const { post_id, facebook_url, linkedin_url, instagram_url } = body;
+    const { post_id } = body;
 
     if (!post_id) {
       return NextResponse.json({ error: 'post_id is required from Make.com' }, { status: 400 });
@@ -25,39 +85,78 @@ export async function POST(request: NextRequest) {
     }
 
     const postsCollection = await getSocialMediaPostsCollection();
+    const post = await postsCollection.findOne({ _id: new ObjectId(post_id) });
 
-    // Create a 'post_links' object with the URLs that were successfully returned
-    const post_links: { [key: string]: string } = {};
-    if (facebook_url) post_links.facebook = facebook_url;
-    if (linkedin_url) post_links.linkedin = linkedin_url;
-    if (instagram_url) post_links.instagram = instagram_url;
+    if (!post) {
+      console.error(`Cleanup webhook called for non-existent post_id: ${post_id}`);
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
 
-    // Determine the final status. If at least one URL was returned, we'll call it 'posted'.
-    // If no URLs were returned, the post failed.
-    const finalStatus = Object.keys(post_links).length > 0 ? 'posted' : 'failed';
-    
-    const updateFields: Partial<SocialMediaPost>  = {
-        status: finalStatus,
-        updated_at: new Date(),
-        post_links: post_links
-    };
-
-    // If it failed, add a reason for easier debugging.
-    if (finalStatus === 'failed') {
-        updateFields.failure_reason = "Make.com scenario completed but returned no post URLs.";
+    // A late callback, e.g. after the lease was recovered or the post was edited
+    // back to review, must not overwrite what happened since
+    if (post.status !== 'processing' || !post.lease) {
+      return NextResponse.json({ error: `Post ${post_id} is not waiting for a callback` }, { status: 409 });
     }
 
-    // Find the post by its ID and update it with the final status and links
-    const result = await postsCollection.updateOne(
-      { _id: new ObjectId(post_id) },
-      { $set: updateFields }
-    );
+    // Record the outcome of every platform Make.com was asked to publish.
+    // Platforms that were already posted on an earlier run are left untouched.
+    // Leases from before the dispatched platforms were stored fall back to the due ones.
+    const platform_results: Record<string, PlatformResult> = { ...post.platform_results };
+    const attempts: Omit<AuditEvent, 'created_at'>[] = [];
+    for (const platform of post.lease.platforms ?? getPlatformsDueForPublish(post)) {
+      const platformKey = platform.toLowerCase();
+      const previous = platform_results[platformKey];
 
-    if (result.matchedCount === 0) {
-      console.error(`Cleanup webhook called for non-existent post_id: ${post_id}`);
-      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+      const url = body[`${platformKey}_url`];
+      const error = body[`${platformKey}_error`];
+      const retryable = body[`${platformKey}_retryable`] !== false;
+      platform_results[platformKey] = recordPlatformAttempt(previous, {
+        success: Boolean(url),
+        link: url,
+        error: error || 'Make.com scenario completed but returned no post URL.',
+        retryable,
+        next_attempt_at: url ? undefined : getNextAttemptAt((previous?.attempts ?? 0) + 1, retryable),
+      });
+
+      const result = platform_results[platformKey];
+      attempts.push({
+        post_id: post._id,
+        action: 'publish_attempt',
+        source: 'webhook',
+        platform: platformKey,
+        success: result.status === 'posted',
+        request: { attempt: result.attempts },
+        response: {
+          link: result.link,
+          error: result.error && summarizeText(result.error),
+          retryable: result.retryable,
+          next_attempt_at: result.next_attempt_at,
+        },
+      });
     }
 
+    // Store the results and derive the final status, links and failure reason,
+    // as long as the lease that dispatched the post is still in place
+    const finalStatus = await applyPlatformResults(post._id, post.platforms, platform_results, 'webhook', { leaseOwner: post.lease.owner });
+
+    if (!finalStatus) {
+      return NextResponse.json({ error: `Post ${post_id} is not waiting for a callback` }, { status: 409 });
+    }
+
+    // The callback itself, then what it reported for each platform
+    await recordAuditEvents([
+      {
+        post_id: post._id,
+        action: 'webhook_call',
+        source: 'webhook',
+        direction: 'incoming',
+        success: true,
+        request: Object.fromEntries(Object.entries(body).map(([key, value]) => [key, typeof value === 'string' ? summarizeText(value) : value])),
+        response: { status: finalStatus },
+      },
+      ...attempts,
+    ]);
+
     return NextResponse.json({
       message: `Post ${post_id} successfully updated with status '${finalStatus}'.`,
     });
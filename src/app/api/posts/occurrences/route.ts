@@ -0,0 +1,103 @@
+// src/app/api/posts/occurrences/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId, WithId } from 'mongodb';
+import { getSocialMediaPostsCollection, SocialMediaPost } from '@/models/SocialMediaPost';
+import { canUserModifyPost, requireRole } from '@/lib/auth';
+import { detachOccurrence, getUpcomingOccurrences, setOccurrenceSkipped } from '@/services/recurrenceService';
+
+const ACTIONS = ['edit', 'skip', 'unskip'];
+const MAX_LIMIT = 50;
+
+// Loads a recurring series by id, or returns the error response
+async function findSeries(seriesId: unknown): Promise<WithId<SocialMediaPost> | NextResponse> {
+  if (typeof seriesId !== 'string' || !ObjectId.isValid(seriesId)) {
+    return NextResponse.json({ error: 'Invalid series ID' }, { status: 400 });
+  }
+
+  const postsCollection = await getSocialMediaPostsCollection();
+  const series = await postsCollection.findOne({ _id: new ObjectId(seriesId) });
+  if (!series?.recurrence) {
+    return NextResponse.json({ error: 'Series not found' }, { status: 404 });
+  }
+  return series;
+}
+
+// --- GET: The next occurrences of a series (?series_id=), skipped ones included ---
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '10') || 10, MAX_LIMIT);
+    const series = await findSeries(searchParams.get('series_id'));
+    if (series instanceof NextResponse) return series;
+
+    const occurrences = await getUpcomingOccurrences(series, limit);
+
+    return NextResponse.json({
+      occurrences: occurrences.map(occurrence => ({
+        occurrence_date: occurrence.occurrence_date.toISOString(),
+        skipped: occurrence.skipped,
+        post_id: occurrence.post?._id.toString(),
+        status: occurrence.post?.status,
+        scheduled_date: occurrence.post?.scheduled_date.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching occurrences:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Changes one occurrence of a series: 'edit' gives it its own post, which can
+ * then be edited like any other post; 'skip' leaves it out; 'unskip' takes
+ * that back. Same permissions as editing the series.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // --- 1. AUTHORIZATION CHECK ---
+    const user = await requireRole(request, 'author');
+    if (user instanceof NextResponse) return user;
+
+    // --- 2. Validate the request ---
+    const { series_id, occurrence_date, action } = await request.json();
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `action must be one of: ${ACTIONS.join(', ')}` }, { status: 400 });
+    }
+
+    const occurrenceDate = new Date(occurrence_date);
+    if (!occurrence_date || isNaN(occurrenceDate.getTime())) {
+      return NextResponse.json({ error: 'occurrence_date must be a date' }, { status: 400 });
+    }
+
+    const series = await findSeries(series_id);
+    if (series instanceof NextResponse) return series;
+
+    if (!canUserModifyPost(user, series)) {
+      return NextResponse.json({ error: 'Forbidden: You can only change your own series.' }, { status: 403 });
+    }
+
+    // --- 3. Apply it ---
+    if (action === 'edit') {
+      const post = await detachOccurrence(series, occurrenceDate, user);
+      if (typeof post === 'string') {
+        return NextResponse.json({ error: post }, { status: 409 });
+      }
+      return NextResponse.json({ post_id: post._id.toString(), message: 'Occurrence ready to edit' });
+    }
+
+    const problem = await setOccurrenceSkipped(series, occurrenceDate, action === 'skip', user);
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 409 });
+    }
+
+    return NextResponse.json({ message: action === 'skip' ? 'Occurrence skipped' : 'Occurrence restored' });
+  } catch (error) {
+    console.error('Error changing occurrence:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
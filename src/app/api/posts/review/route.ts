@@ -0,0 +1,74 @@
+// src/app/api/posts/review/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getSocialMediaPostsCollection } from '@/models/SocialMediaPost';
+import { requireRole } from '@/lib/auth';
+import { canReviewPost, reviewPost, ReviewDecision } from '@/services/reviewService';
+import { recordStatusChange } from '@/services/auditService';
+
+const DECISIONS: ReviewDecision[] = ['approve', 'request_changes'];
+
+/**
+ * Approves a post in review, or sends it back to its author with a comment
+ * saying what to change. Approved posts are published at their scheduled time.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // --- 1. AUTHORIZATION CHECK ---
+    const user = await requireRole(request, 'approver');
+    if (user instanceof NextResponse) return user;
+
+    // --- 2. Validate the decision ---
+    const { id, action, comment } = await request.json();
+
+    if (!id || !ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid post ID' }, { status: 400 });
+    }
+
+    if (!DECISIONS.includes(action)) {
+      return NextResponse.json({ error: `action must be one of: ${DECISIONS.join(', ')}` }, { status: 400 });
+    }
+
+    const trimmedComment = typeof comment === 'string' ? comment.trim() : '';
+    if (action === 'request_changes' && !trimmedComment) {
+      return NextResponse.json({ error: 'A comment is required when requesting changes' }, { status: 400 });
+    }
+
+    const postsCollection = await getSocialMediaPostsCollection();
+    const post = await postsCollection.findOne({ _id: new ObjectId(id) });
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    if (!(await canReviewPost(user, post))) {
+      return NextResponse.json({ error: 'Forbidden: You are not an approver for this post.' }, { status: 403 });
+    }
+
+    // --- 3. Record it; fails if the post left review in the meantime ---
+    const reviewedPost = post.status === 'in_review'
+      ? await reviewPost(post._id, user, action, trimmedComment || undefined)
+      : null;
+
+    if (!reviewedPost) {
+      return NextResponse.json({ error: 'Only posts in review can be approved or sent back' }, { status: 409 });
+    }
+
+    await recordStatusChange(post._id, post.status, reviewedPost.status, { source: 'user', user, message: trimmedComment || undefined });
+
+    return NextResponse.json({
+      post: {
+        ...reviewedPost,
+        _id: reviewedPost._id.toString(),
+        created_at: reviewedPost.created_at.toISOString(),
+        updated_at: reviewedPost.updated_at.toISOString(),
+        scheduled_date: reviewedPost.scheduled_date.toISOString(),
+      },
+      message: action === 'approve' ? 'Post approved' : 'Changes requested',
+    });
+  } catch (error) {
+    console.error('Error reviewing post:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+// src/app/api/posts/revisions/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getPostRevisionsCollection } from '@/models/PostRevision';
+import { normalizeMediaItems } from '@/models/SocialMediaPost';
+import { findDeletedMediaUrls } from '@/services/mediaCleanupService';
+import { requireRole } from '@/lib/auth';
+
+/**
+ * Lists the revisions of a post (?post_id=), newest first. Media whose file has
+ * since been deleted from media storage is marked with deleted: true, since it
+ * can no longer be restored.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // --- 1. AUTHORIZATION CHECK ---
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    const postId = new URL(request.url).searchParams.get('post_id');
+    if (!postId || !ObjectId.isValid(postId)) {
+      return NextResponse.json({ error: 'Invalid post ID' }, { status: 400 });
+    }
+
+    // --- 2. Fetch the revisions ---
+    const revisionsCollection = await getPostRevisionsCollection();
+    const revisions = await revisionsCollection
+      .find({ post_id: new ObjectId(postId) })
+      .sort({ revision: -1 })
+      .toArray();
+
+    const deletedUrls = await findDeletedMediaUrls(revisions.flatMap(revision => normalizeMediaItems(revision.post_media)));
+
+    return NextResponse.json({
+      revisions: revisions.map(revision => ({
+        ...revision,
+        _id: revision._id.toString(),
+        post_id: revision.post_id.toString(),
+        post_media: normalizeMediaItems(revision.post_media).map(item => deletedUrls.has(item.url) ? { ...item, deleted: true } : item),
+        created_by: revision.created_by && { ...revision.created_by, user_id: revision.created_by.user_id.toString() },
+        scheduled_date: revision.scheduled_date.toISOString(),
+        created_at: revision.created_at.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching post revisions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
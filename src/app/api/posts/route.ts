@@ -1,18 +1,182 @@
 // src/app/api/posts/route.ts
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getSocialMediaPostsCollection, SocialMediaPost } from '@/models/SocialMediaPost';
-import { ObjectId } from 'mongodb';
-import { v2 as cloudinary } from 'cloudinary';
-
-// --- Cloudinary Configuration ---
-// Place this at the top of your file
-cloudinary.config({
-  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
-  api_key: process.env.CLOUDINARY_API_KEY,
-  api_secret: process.env.CLOUDINARY_API_SECRET,
-  secure: true,
-});
+import { getSocialMediaPostsCollection, SocialMediaPost, PostStatus, MediaItem, MediaCrop, normalizeMediaItems, UNPUBLISHED_STATUSES } from '@/models/SocialMediaPost';
+import { Filter, ObjectId } from 'mongodb';
+import { validatePost, hasBlockingIssues, ValidationIssue, ValidatableMedia } from '@/lib/postValidation';
+import { getPlatformDefinition } from '@/lib/platforms';
+import { inspectMedia, MediaMetadata } from '@/lib/mediaInspection';
+import { findDeletedMediaUrls, scheduleMediaDeletion } from '@/services/mediaCleanupService';
+import { getMediaCropUrl, storeMedia } from '@/services/storage';
+import { canUserModifyPost, requireRole, toUserRef } from '@/lib/auth';
+import { createReviewEvent, getReviewQueueFilter } from '@/services/reviewService';
+import { recordPostCreated, recordPostDeleted, recordPostUpdated } from '@/services/auditService';
+import { deletePostRevisions, getPostRevision, recordPostRevision } from '@/services/revisionService';
+import { parseRecurrenceRule, RecurrenceRule } from '@/lib/recurrence';
+import { isValidTimeZone } from '@/lib/timezones';
+import { getTeamTimeZone } from '@/models/TeamSettings';
+import { claimQueueSlot, findNextFreeSlot, isQueueSlotConflict, shuffleQueue } from '@/services/queueService';
+
+const INVALID_TIMEZONE_ERROR = 'timezone must be an IANA time zone, e.g. Europe/Berlin';
+const NO_QUEUE_SLOT_ERROR = 'No free queue slot. Set up the posting queue of these platforms first.';
+const QUEUE_SLOT_TAKEN_ERROR = 'Another queued post already holds this slot on one of the platforms';
+
+// Structured 422 response listing every platform rule the post breaks
+function validationErrorResponse(issues: ValidationIssue[]) {
+  return NextResponse.json(
+    { error: 'Post does not meet the requirements of the selected platforms.', issues },
+    { status: 422 }
+  );
+}
+
+// Fields only the server sets; ignored when sent by the composer
+const SERVER_MANAGED_FIELDS = [
+  '_id',
+  'created_at',
+  'updated_at',
+  'created_by',
+  'updated_by',
+  'lease',
+  'lease_recoveries',
+  'post_links',
+  'platform_results',
+  'failure_reason',
+  'next_attempt_at',
+  'review_history',
+  'approved_by',
+  'approved_at',
+  'occurrences_created_until',
+  'series_id',
+  'occurrence_date',
+  'queued',
+];
+
+// Statuses an edit may move a post to. Approval goes through /api/posts/review.
+const EDITABLE_STATUSES: PostStatus[] = ['draft', 'in_review', 'deleted'];
+
+// Posts that failed on some or all platforms; they can be corrected and sent
+// through review again, and keep the results of the platforms already posted
+const CORRECTABLE_STATUSES: PostStatus[] = ['failed', 'partial_success'];
+
+// Issues about the files themselves; these block drafts too, since a file that
+// is too big or in the wrong format never becomes valid
+const FILE_ISSUE_CODES = ['mime_type_not_allowed', 'media_too_large', 'video_too_long'];
+
+interface InspectedFile {
+  buffer: Buffer;
+  metadata: MediaMetadata;
+}
+
+// Reads and inspects every uploaded file. Returns a 422 response for the first
+// file that isn't a recognised image or video.
+async function inspectUploadedFiles(files: File[]): Promise<InspectedFile[] | NextResponse> {
+  const inspected: InspectedFile[] = [];
+
+  for (const file of files) {
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const metadata = inspectMedia(buffer);
+    if (!metadata) {
+      return validationErrorResponse([{
+        platform: '',
+        field: 'media',
+        code: 'unsupported_media',
+        message: `${file.name} is not a supported image or video file.`,
+        severity: 'error',
+      }]);
+    }
+    inspected.push({ buffer, metadata });
+  }
+
+  return inspected;
+}
+
+// Stores the inspected files one by one, keeping their order
+async function storeUploadedFiles(files: InspectedFile[]): Promise<MediaItem[]> {
+  const stored: MediaItem[] = [];
+  for (const { buffer, metadata } of files) {
+    stored.push(await storeMedia(buffer, metadata));
+  }
+  return stored;
+}
+
+// Platform variants as sent by the composer. Media is given as indexes into the
+// post's final media list, because new uploads have no URL yet.
+interface SubmittedVariant {
+  post_text?: string;
+  media_indexes?: number[];
+}
+
+// Keeps the variants of the selected platforms and swaps media indexes for the
+// matching items of the final media list
+function resolvePlatformVariants<T>(
+  submitted: Record<string, SubmittedVariant> | undefined,
+  platforms: string[],
+  media: T[]
+): Record<string, { post_text?: string; post_media?: T[] }> {
+  const variants: Record<string, { post_text?: string; post_media?: T[] }> = {};
+
+  for (const platform of platforms.map(p => p.toLowerCase())) {
+    const variant = submitted?.[platform];
+    if (!variant) continue;
+
+    const resolved: { post_text?: string; post_media?: T[] } = {};
+    if (typeof variant.post_text === 'string') resolved.post_text = variant.post_text;
+    if (Array.isArray(variant.media_indexes)) {
+      resolved.post_media = variant.media_indexes
+        .filter(index => Number.isInteger(index) && index >= 0 && index < media.length)
+        .map(index => media[index]);
+    }
+    if (Object.keys(resolved).length > 0) variants[platform] = resolved;
+  }
+
+  return variants;
+}
+
+// Editable fields of a media item as sent by the composer, in the order of the
+// final media list. crops maps a platform to one of its crop aspect ratios.
+interface SubmittedMediaItem {
+  alt_text?: string;
+  title?: string;
+  description?: string;
+  crops?: Record<string, string>;
+}
+
+// Applies the composer's alt text, titles, descriptions and crops to the media
+// items. Without submitted edits the items are returned as they are.
+function applyMediaEdits(submitted: (SubmittedMediaItem | null)[] | undefined, media: MediaItem[]): MediaItem[] {
+  if (!Array.isArray(submitted)) return media;
+
+  return media.map((item, index) => {
+    const edits = submitted[index];
+    if (!edits) return item;
+
+    // The editable fields are replaced as a whole, so cleared values are removed
+    const edited: MediaItem = { ...item };
+    for (const field of ['alt_text', 'title', 'description'] as const) {
+      const value = typeof edits[field] === 'string' ? edits[field].trim() : '';
+      if (value) edited[field] = value;
+      else delete edited[field];
+    }
+    delete edited.crops;
+
+    const crops: Record<string, MediaCrop> = {};
+    for (const [platform, aspectRatio] of Object.entries(edits.crops ?? {})) {
+      if (!getPlatformDefinition(platform)?.cropAspectRatios.includes(aspectRatio)) continue;
+      const url = getMediaCropUrl(item.url, aspectRatio);
+      if (url) crops[platform.toLowerCase()] = { aspect_ratio: aspectRatio, url };
+    }
+    if (Object.keys(crops).length > 0) edited.crops = crops;
+
+    return edited;
+  });
+}
+
+// Variant content in the shape validatePost expects
+function toValidatableVariants(variants: Record<string, { post_text?: string; post_media?: ValidatableMedia[] }>) {
+  return Object.fromEntries(
+    Object.entries(variants).map(([platform, variant]) => [platform, { text: variant.post_text, media: variant.post_media }])
+  );
+}
 
 // --- Your Existing GET Function (Unchanged) ---
 export async function GET(request: NextRequest) {
@@ -24,17 +188,36 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '20');
     const skip = parseInt(searchParams.get('skip') || '0');
     const statusFilter = searchParams.get('status');
+    // 'needs_review' lists the posts waiting for the signed-in user's review
+    const view = searchParams.get('view');
+    // Limit the posts to a scheduled_date range (from inclusive, to exclusive), e.g. for the calendar
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+    const from = fromParam ? new Date(fromParam) : null;
+    const to = toParam ? new Date(toParam) : null;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json({ error: 'from and to must be dates' }, { status: 400 });
+    }
     
     // Build query filter
-    const query: { status?: 'draft' | 'pending' | 'posted' | 'failed' | 'partial_success' | 'deleted' } = {};
+    let query: Filter<SocialMediaPost> = {};
     if (statusFilter) {
-      query.status = statusFilter as 'draft' | 'pending' | 'posted' | 'failed' | 'partial_success' | 'deleted';
+      query.status = statusFilter as PostStatus;
+    }
+    if (from || to) {
+      query.scheduled_date = { ...(from && { $gte: from }), ...(to && { $lt: to }) };
+    }
+
+    if (view === 'needs_review') {
+      const user = await requireRole(request, 'approver');
+      if (user instanceof NextResponse) return user;
+      query = { ...query, ...(await getReviewQueueFilter(user)) };
     }
     
-    // Fetch posts sorted by creation date (newest first)
+    // Fetch posts sorted by creation date (newest first), or by schedule within a range
     const posts = await postsCollection
       .find(query)
-      .sort({ created_at: -1 })
+      .sort(from || to ? { scheduled_date: 1 } : { created_at: -1 })
       .skip(skip)
       .limit(limit)
       .toArray();
@@ -42,7 +225,10 @@ export async function GET(request: NextRequest) {
     // Get counts for dashboard
     const totalPosts = await postsCollection.countDocuments({});
     const draftPosts = await postsCollection.countDocuments({ status: 'draft' });
-    const pendingPosts = await postsCollection.countDocuments({ status: 'pending' });
+    const inReviewPosts = await postsCollection.countDocuments({ status: { $in: ['in_review', 'pending'] } });
+    const changesRequestedPosts = await postsCollection.countDocuments({ status: 'changes_requested' });
+    const approvedPosts = await postsCollection.countDocuments({ status: 'approved' });
+    const processingPosts = await postsCollection.countDocuments({ status: 'processing' });
     const postedPosts = await postsCollection.countDocuments({ status: 'posted' });
     const failedPosts = await postsCollection.countDocuments({ status: 'failed' });
     const partialSuccessPosts = await postsCollection.countDocuments({ status: 'partial_success' });
@@ -54,12 +240,16 @@ export async function GET(request: NextRequest) {
         _id: post._id.toString(),
         created_at: post.created_at.toISOString(),
         updated_at: post.updated_at.toISOString(),
-        scheduled_date: post.scheduled_date.toISOString()
+        scheduled_date: post.scheduled_date.toISOString(),
+        post_media: normalizeMediaItems(post.post_media),
       })),
       counts: {
         total: totalPosts,
         draft: draftPosts,
-        pending: pendingPosts,
+        inReview: inReviewPosts,
+        changesRequested: changesRequestedPosts,
+        approved: approvedPosts,
+        processing: processingPosts,
         posted: postedPosts,
         failed: failedPosts,
         partialSuccess: partialSuccessPosts,
@@ -78,22 +268,12 @@ export async function GET(request: NextRequest) {
 // --- SECURED POST Function with File Upload Logic ---
 export async function POST(request: NextRequest) {
   try {
-    const formData = await request.formData();
-    
     // --- 1. AUTHORIZATION CHECK ---
-    const submittedKey = formData.get('secretKey') as string;
-    const serverKey = process.env.POST_SECRET_KEY;
-
-    if (!serverKey) {
-        console.error('CRITICAL: POST_SECRET_KEY is not set on the server.');
-        return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
-    }
-
-    if (submittedKey !== serverKey) {
-        return NextResponse.json({ error: 'Unauthorized: Invalid secret key.' }, { status: 401 });
-    }
+    const user = await requireRole(request, 'author');
+    if (user instanceof NextResponse) return user;
 
     // --- 2. Process the rest of the form data (as before) ---
+    const formData = await request.formData();
     const postDataJSON = formData.get('postData') as string;
     const mediaFiles = formData.getAll('media') as File[];
     const isDraft = formData.get('isDraft') === 'true'; // Check if this is a draft
@@ -101,51 +281,94 @@ export async function POST(request: NextRequest) {
     if (!postDataJSON) {
       return NextResponse.json({ error: 'Post data is missing' }, { status: 400 });
     }
-    const postData = JSON.parse(postDataJSON);
-
-    // 3. Upload media files to Cloudinary
-    const mediaUrls: string[] = [];
-    if (mediaFiles && mediaFiles.length > 0) {
-      for (const file of mediaFiles) {
-        // Convert file to a buffer to upload
-        const arrayBuffer = await file.arrayBuffer();
-        const buffer = Buffer.from(arrayBuffer);
-        
-        // Upload the buffer to Cloudinary
-        const result = await new Promise<{ secure_url: string }>((resolve, reject) => {
-          cloudinary.uploader.upload_stream(
-            { folder: 'social_media_posts' },
-            (error, result) => {
-              if (error) reject(error);
-              else resolve(result as { secure_url: string });
-            }
-          ).end(buffer);
-        });
-        
-        mediaUrls.push(result.secure_url);
-      }
+    const { platform_variants: submittedVariants, media_items: submittedMediaItems, ...postData } = JSON.parse(postDataJSON);
+    for (const field of SERVER_MANAGED_FIELDS) delete postData[field];
+    const platforms: string[] = postData.platforms ?? [];
+
+    // A recurrence makes the post a series; see src/lib/recurrence.ts
+    const recurrence = parseRecurrenceRule(postData.recurrence);
+    if (typeof recurrence === 'string') {
+      return NextResponse.json({ error: recurrence }, { status: 400 });
+    }
+    delete postData.recurrence;
+
+    // scheduled_date is the UTC instant; the zone it was picked in defaults to the team's
+    if (postData.timezone !== undefined && !isValidTimeZone(postData.timezone)) {
+      return NextResponse.json({ error: INVALID_TIMEZONE_ERROR }, { status: 400 });
+    }
+    const timezone: string = postData.timezone ?? await getTeamTimeZone(postData.team);
+
+    // "Add to queue" takes the next free slot of the team's queues instead of scheduled_date
+    const addToQueue = postData.queue === true;
+    delete postData.queue;
+    if (addToQueue && recurrence) {
+      return NextResponse.json({ error: 'A recurring post cannot be added to the queue' }, { status: 400 });
+    }
+
+    // 3. Inspect the files, then validate their real type, size and duration
+    // against the platform rules before anything is uploaded.
+    // Drafts may be incomplete, so only the files are checked until they are scheduled.
+    const inspectedFiles = await inspectUploadedFiles(mediaFiles);
+    if (inspectedFiles instanceof NextResponse) {
+      return inspectedFiles;
+    }
+
+    const media = inspectedFiles.map(file => file.metadata);
+    const issues = validatePost({
+      text: postData.post_text ?? '',
+      media,
+      platforms,
+      variants: toValidatableVariants(resolvePlatformVariants(submittedVariants, platforms, media)),
+    });
+    const blockingIssues = isDraft ? issues.filter(issue => FILE_ISSUE_CODES.includes(issue.code)) : issues;
+    if (hasBlockingIssues(blockingIssues)) {
+      return validationErrorResponse(blockingIssues);
     }
 
-    // 4. Prepare the new post object for the database
+    if (addToQueue && !await findNextFreeSlot(postData.team, platforms)) {
+      return NextResponse.json({ error: NO_QUEUE_SLOT_ERROR }, { status: 400 });
+    }
+
+    // 4. Upload media files to media storage
+    const uploadedMedia = await storeUploadedFiles(inspectedFiles);
+    const mediaItems = applyMediaEdits(submittedMediaItems, uploadedMedia);
+
+    // 5. Prepare the new post object for the database
     const postsCollection = await getSocialMediaPostsCollection();
     const newPost: Omit<SocialMediaPost, '_id'> = {
       ...postData,
       scheduled_date: new Date(postData.scheduled_date),
-      post_media: mediaUrls, // Use the URLs from Cloudinary
-      status: isDraft ? 'draft' : 'pending', // Set status based on whether it's a draft
+      timezone,
+      post_media: mediaItems,
+      platform_variants: resolvePlatformVariants(submittedVariants, platforms, mediaItems.map(item => item.url)),
+      status: isDraft ? 'draft' : 'in_review', // Non-drafts go to review before they can publish
       post_links: {},
       created_at: new Date(),
       updated_at: new Date(),
+      created_by: toUserRef(user),
+      updated_by: toUserRef(user),
+      review_history: isDraft ? [] : [createReviewEvent(user, 'submitted')],
+      ...(recurrence && { recurrence }),
     };
 
-    // 5. Insert into the database
-    const result = await postsCollection.insertOne(newPost as SocialMediaPost);
+    // 6. Insert into the database; a queued post takes the next slot still free by then
+    const insert = (fields: Partial<SocialMediaPost> = {}) => postsCollection.insertOne({ ...newPost, ...fields } as SocialMediaPost);
+    const result = addToQueue
+      ? await claimQueueSlot(postData.team, platforms, slot => insert({ scheduled_date: slot, queued: true }))
+      : await insert();
+    if (!result) {
+      await scheduleMediaDeletion(uploadedMedia, 'unreferenced');
+      return NextResponse.json({ error: NO_QUEUE_SLOT_ERROR }, { status: 400 });
+    }
     const createdPost = await postsCollection.findOne({ _id: result.insertedId });
 
     if (!createdPost) {
       throw new Error('Failed to fetch created post');
     }
 
+    await recordPostCreated(createdPost, user);
+    await recordPostRevision(createdPost, user);
+
     return NextResponse.json({
         post: {
           ...createdPost,
@@ -164,21 +387,26 @@ export async function POST(request: NextRequest) {
 }
 
 
-// --- Updated PUT Function to handle draft and pending posts ---
+// --- Updated PUT Function to handle draft and in-review posts ---
 export async function PUT(request: NextRequest) {
   try {
     const postsCollection = await getSocialMediaPostsCollection();
     
     // Parse the request body
     // Handle FormData (for both JSON and file uploads)
+    const user = await requireRole(request, 'author');
+    if (user instanceof NextResponse) return user;
+
     const formData = await request.formData();
     const id = formData.get('id') as string;
-    const secretKey = formData.get('secretKey') as string;
     const postDataJSON = formData.get('postData') as string;
     const mediaFiles = formData.getAll('media') as File[];
     const deletedMediaJSON = formData.get('deletedMedia') as string;
+    // Set when the composer restored an older revision; its media replaces the current media
+    const restoreRevisionId = formData.get('restoreRevision') as string | null;
 
-    const updateData = JSON.parse(postDataJSON);
+    const { platform_variants: submittedVariants, media_items: submittedMediaItems, ...updateData } = JSON.parse(postDataJSON);
+    for (const field of SERVER_MANAGED_FIELDS) delete updateData[field];
     
     if (!id) {
       return NextResponse.json(
@@ -205,50 +433,69 @@ export async function PUT(request: NextRequest) {
       );
     }
     
-    // Only require secret key for draft and pending posts
-    if (post.status === 'draft' || post.status === 'pending') {
-      const serverKey = process.env.POST_SECRET_KEY;
-
-      if (!serverKey) {
-          console.error('CRITICAL: POST_SECRET_KEY is not set on the server.');
-          return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
-      }
+    // Authors may only change their own posts
+    if (!canUserModifyPost(user, post)) {
+      return NextResponse.json({ error: 'Forbidden: You can only edit your own posts.' }, { status: 403 });
+    }
 
-      if (secretKey !== serverKey) {
-          return NextResponse.json({ error: 'Unauthorized: Invalid secret key.' }, { status: 401 });
-      }
+    // Posts that went out, or are going out, keep their content. A posted post
+    // can only be hidden from the dashboard by marking it deleted; failed ones
+    // can be corrected.
+    const isSoftDelete = post.status === 'posted'
+      && updateData.status === 'deleted'
+      && Object.keys(updateData).length === 1
+      && mediaFiles.length === 0
+      && !submittedVariants
+      && !submittedMediaItems
+      && !deletedMediaJSON
+      && !restoreRevisionId;
+    if (!UNPUBLISHED_STATUSES.includes(post.status) && !CORRECTABLE_STATUSES.includes(post.status) && !isSoftDelete) {
+      return NextResponse.json({ error: 'Posts that are being published or were published can\'t be edited' }, { status: 409 });
     }
     
-    // Prepare update data
-    const updateFields: Partial<SocialMediaPost> = {
-      ...updateData,
-      scheduled_date: updateData.scheduled_date ? new Date(updateData.scheduled_date) : new Date(),
-      updated_at: new Date()
-    };
+    if (updateData.status !== undefined && !EDITABLE_STATUSES.includes(updateData.status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${EDITABLE_STATUSES.join(', ')}. Posts are approved through /api/posts/review.` },
+        { status: 400 }
+      );
+    }
 
-    // Handle media file uploads for editing
-    const mediaUrls: string[] = [];
-    if (mediaFiles && mediaFiles.length > 0) {
-      for (const file of mediaFiles) {
-        // Convert file to a buffer to upload
-        const arrayBuffer = await file.arrayBuffer();
-        const buffer = Buffer.from(arrayBuffer);
-        
-        // Upload the buffer to Cloudinary
-        const result = await new Promise<{ secure_url: string }>((resolve, reject) => {
-          cloudinary.uploader.upload_stream(
-            { folder: 'social_media_posts' },
-            (error, result) => {
-              if (error) reject(error);
-              else resolve(result as { secure_url: string });
-            }
-          ).end(buffer);
-        });
-        
-        mediaUrls.push(result.secure_url);
+    // Changing an approved or failed post needs a new approval
+    if (updateData.status === undefined && (post.status === 'approved' || CORRECTABLE_STATUSES.includes(post.status))) {
+      updateData.status = 'in_review';
+    }
+
+    // A changed recurrence keeps the skipped occurrences; null stops repeating
+    let recurrence: RecurrenceRule | null | undefined;
+    if ('recurrence' in updateData) {
+      const parsed = parseRecurrenceRule(updateData.recurrence);
+      if (typeof parsed === 'string') {
+        return NextResponse.json({ error: parsed }, { status: 400 });
       }
+      if (parsed && post.series_id) {
+        return NextResponse.json({ error: 'An occurrence of a series cannot repeat itself' }, { status: 400 });
+      }
+      if (parsed && post.recurrence?.exceptions) {
+        parsed.exceptions = post.recurrence.exceptions;
+      }
+      recurrence = parsed;
+      delete updateData.recurrence;
+    }
+
+    // Posts from before time zones get their team's on their next save
+    if (updateData.timezone !== undefined && !isValidTimeZone(updateData.timezone)) {
+      return NextResponse.json({ error: INVALID_TIMEZONE_ERROR }, { status: 400 });
+    }
+    if (!updateData.timezone && !post.timezone) {
+      updateData.timezone = await getTeamTimeZone(updateData.team ?? post.team);
     }
 
+    const addToQueue = updateData.queue === true;
+    delete updateData.queue;
+    if (addToQueue && (recurrence || (recurrence === undefined && post.recurrence) || post.series_id)) {
+      return NextResponse.json({ error: 'A recurring post or occurrence cannot be added to the queue' }, { status: 400 });
+    }
+    
     // Parse deleted media
     let deletedMedia: { url: string; index: number }[] = [];
     if (deletedMediaJSON) {
@@ -259,24 +506,95 @@ export async function PUT(request: NextRequest) {
       }
     }
 
-    // Combine existing media URLs with newly uploaded ones, excluding deleted ones
-    let finalMediaUrls: string[] = [];
-    if (post.post_media && post.post_media.length > 0) {
-      // Filter out deleted media from existing media
-      finalMediaUrls = post.post_media.filter((url, index) => {
-        // Check if this media is marked for deletion
-        return !deletedMedia.some(deleted => deleted.index === index);
-      });
+    const inspectedFiles = await inspectUploadedFiles(mediaFiles);
+    if (inspectedFiles instanceof NextResponse) {
+      return inspectedFiles;
+    }
+
+    // The media the composer started from, which deletedMedia indexes refer to.
+    // Media of a restored revision whose files are already gone is left out.
+    const currentMedia = normalizeMediaItems(post.post_media);
+    let storedMedia = currentMedia;
+    if (restoreRevisionId) {
+      const revision = ObjectId.isValid(restoreRevisionId)
+        ? await getPostRevision(post._id, new ObjectId(restoreRevisionId))
+        : null;
+      if (!revision) {
+        return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+      }
+      const revisionMedia = normalizeMediaItems(revision.post_media);
+      const deletedUrls = await findDeletedMediaUrls(revisionMedia);
+      storedMedia = revisionMedia.filter(item => !deletedUrls.has(item.url));
     }
 
-    if (mediaUrls.length > 0) {
-      // Add newly uploaded media URLs
-      finalMediaUrls = [...finalMediaUrls, ...mediaUrls];
+    // Validate against the platform rules; only the files are checked unless
+    // the post is (still) going to be reviewed
+    const finalStatus = updateData.status ?? post.status;
+    const finalPlatforms: string[] = updateData.platforms ?? post.platforms;
+    const isDeleted = (index: number) => deletedMedia.some(deleted => deleted.index === index);
+    const remainingMedia = storedMedia.filter((_, index) => !isDeleted(index));
+    const removedMedia = currentMedia.filter(item => !remainingMedia.some(remaining => remaining.url === item.url));
+    const media: ValidatableMedia[] = [...remainingMedia, ...inspectedFiles.map(file => file.metadata)];
+    // Without submitted variants the stored ones stay, minus any removed media
+    const variants = submittedVariants
+      ? resolvePlatformVariants(submittedVariants, finalPlatforms, media)
+      : Object.fromEntries(Object.entries(post.platform_variants ?? {}).map(([platform, variant]) => [platform, {
+          post_text: variant.post_text,
+          post_media: variant.post_media && remainingMedia.filter(item => variant.post_media?.includes(item.url)),
+        }]));
+    const issues = validatePost({
+      text: updateData.post_text ?? post.post_text,
+      media,
+      platforms: finalPlatforms,
+      variants: toValidatableVariants(variants),
+    });
+    const blockingIssues = finalStatus === 'in_review'
+      ? issues
+      : issues.filter(issue => FILE_ISSUE_CODES.includes(issue.code));
+    if (hasBlockingIssues(blockingIssues)) {
+      return validationErrorResponse(blockingIssues);
     }
 
-    // Update the post_media field with combined URLs
-    if (finalMediaUrls.length > 0) {
-      updateFields.post_media = finalMediaUrls;
+    // "Add to queue" moves the post to the next free slot of its team's queues (claimed
+    // when the post is saved below); a date picked by hand takes a queued post out of the queue
+    const queueSlot = addToQueue
+      ? await findNextFreeSlot(updateData.team ?? post.team, finalPlatforms, { excludePostId: post._id })
+      : null;
+    if (addToQueue && !queueSlot) {
+      return NextResponse.json({ error: NO_QUEUE_SLOT_ERROR }, { status: 400 });
+    }
+    // Edits that don't send a schedule, e.g. marking a post deleted, keep the current one
+    const scheduledDate = queueSlot ?? (updateData.scheduled_date ? new Date(updateData.scheduled_date) : post.scheduled_date);
+    const leavesQueue = post.queued === true && !queueSlot && scheduledDate.getTime() !== post.scheduled_date.getTime();
+
+    // Prepare update data
+    const updateFields: Partial<SocialMediaPost> = {
+      ...updateData,
+      scheduled_date: scheduledDate,
+      updated_at: new Date(),
+      updated_by: toUserRef(user),
+    };
+
+    // Handle media file uploads for editing
+    const uploadedMedia = await storeUploadedFiles(inspectedFiles);
+
+    // Existing media minus the deleted items, then the new uploads, with the
+    // composer's alt text and crops applied
+    const finalMedia = applyMediaEdits(submittedMediaItems, [...remainingMedia, ...uploadedMedia]);
+    if (finalMedia.length > 0 || deletedMedia.length > 0 || submittedMediaItems || restoreRevisionId) {
+      updateFields.post_media = finalMedia;
+    }
+
+    if (submittedVariants) {
+      updateFields.platform_variants = resolvePlatformVariants(submittedVariants, finalPlatforms, finalMedia.map(item => item.url));
+    }
+
+    if (recurrence) {
+      updateFields.recurrence = recurrence;
+    }
+
+    if (addToQueue) {
+      updateFields.queued = true;
     }
     
     // Remove undefined fields
@@ -286,18 +604,49 @@ export async function PUT(request: NextRequest) {
       }
     });
     
-    // Update the post
-    const result = await postsCollection.updateOne(
-      { _id: new ObjectId(id) },
-      { $set: updateFields }
+    // Update the post. Putting it back to draft or review starts over, so any
+    // scheduled automatic retry, the last failure and the previous approval are
+    // dropped. Results of platforms already posted stay, so they aren't posted twice.
+    const startsOver = updateFields.status === 'draft' || updateFields.status === 'in_review';
+    const submitted = updateFields.status === 'in_review' && post.status !== 'in_review';
+    const unsetFields: Record<string, ''> = {};
+    if (startsOver) Object.assign(unsetFields, { next_attempt_at: '', failure_reason: '', approved_by: '', approved_at: '' });
+    if (recurrence === null) Object.assign(unsetFields, { recurrence: '', occurrences_created_until: '' });
+    if (leavesQueue) unsetFields.queued = '';
+    // Matching the status read above keeps the edit from racing /api/trigger-posts
+    const update = (fields: Partial<SocialMediaPost> = {}) => postsCollection.updateOne(
+      { _id: new ObjectId(id), status: post.status },
+      {
+        $set: { ...updateFields, ...fields },
+        ...(Object.keys(unsetFields).length > 0 && { $unset: unsetFields }),
+        ...(submitted && { $push: { review_history: createReviewEvent(user, 'submitted') } }),
+      }
     );
-    
+    let result;
+    try {
+      // A queued post takes the next slot still free by then
+      result = addToQueue
+        ? await claimQueueSlot(updateData.team ?? post.team, finalPlatforms, slot => update({ scheduled_date: slot }), { excludePostId: post._id })
+        : await update();
+    } catch (error) {
+      // E.g. a queued post moved to a platform whose queue has another post in its slot
+      if (!isQueueSlotConflict(error)) throw error;
+      await scheduleMediaDeletion(uploadedMedia, 'unreferenced');
+      return NextResponse.json({ error: QUEUE_SLOT_TAKEN_ERROR }, { status: 409 });
+    }
+
+    if (!result) {
+      await scheduleMediaDeletion(uploadedMedia, 'unreferenced');
+      return NextResponse.json({ error: NO_QUEUE_SLOT_ERROR }, { status: 400 });
+    }
+
     if (result.matchedCount === 0) {
-      return NextResponse.json(
-        { error: 'Post not found' },
-        { status: 404 }
-      );
+      await scheduleMediaDeletion(uploadedMedia, 'unreferenced');
+      return NextResponse.json({ error: 'The post changed in the meantime; reload it and try again' }, { status: 409 });
     }
+
+    // Removed files stay in storage for the grace period so the edit can be undone
+    await scheduleMediaDeletion(removedMedia, 'removed_from_post', { postId: post._id });
     
     // Fetch the updated post
     const updatedPost = await postsCollection.findOne({ _id: new ObjectId(id) });
@@ -305,6 +654,14 @@ export async function PUT(request: NextRequest) {
     if (!updatedPost) {
       throw new Error('Failed to fetch updated post');
     }
+
+    await recordPostUpdated(post, updatedPost, user);
+    await recordPostRevision(updatedPost, user, post);
+
+    // The slot a queued post left can be taken by the later queued posts
+    if (post.queued && (updatedPost.scheduled_date.getTime() !== post.scheduled_date.getTime() || !UNPUBLISHED_STATUSES.includes(updatedPost.status))) {
+      await shuffleQueue(post.team, post.platforms, user);
+    }
     
     return NextResponse.json({
       post: {
@@ -327,14 +684,17 @@ export async function PUT(request: NextRequest) {
   }
 }
 
-// --- Updated DELETE Function to handle secret key for draft and pending posts ---
+// --- DELETE Function; authors may delete their own posts, approvers any post ---
 export async function DELETE(request: NextRequest) {
   try {
+    const user = await requireRole(request, 'author');
+    if (user instanceof NextResponse) return user;
+
     const postsCollection = await getSocialMediaPostsCollection();
     
     // Parse the request body
     const body = await request.json();
-    const { id, secretKey } = body;
+    const { id } = body;
     
     if (!id) {
       return NextResponse.json(
@@ -361,19 +721,8 @@ export async function DELETE(request: NextRequest) {
       );
     }
     
-    // Only require secret key for draft and pending posts
-    // Posted posts can be deleted without secret key (as per user's requirement)
-    if (post.status === 'draft' || post.status === 'pending') {
-      const serverKey = process.env.POST_SECRET_KEY;
-
-      if (!serverKey) {
-          console.error('CRITICAL: POST_SECRET_KEY is not set on the server.');
-          return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
-      }
-
-      if (secretKey !== serverKey) {
-          return NextResponse.json({ error: 'Unauthorized: Invalid secret key.' }, { status: 401 });
-      }
+    if (!canUserModifyPost(user, post)) {
+      return NextResponse.json({ error: 'Forbidden: You can only delete your own posts.' }, { status: 403 });
     }
     
     // Delete the post
@@ -385,6 +734,14 @@ export async function DELETE(request: NextRequest) {
         { status: 404 }
       );
     }
+
+    await scheduleMediaDeletion(normalizeMediaItems(post.post_media), 'post_deleted', { postId: post._id });
+    await recordPostDeleted(post, user);
+    await deletePostRevisions(post._id);
+
+    if (post.queued && UNPUBLISHED_STATUSES.includes(post.status)) {
+      await shuffleQueue(post.team, post.platforms, user);
+    }
     
     return NextResponse.json({ message: 'Post deleted successfully' });
   } catch (error) {
@@ -0,0 +1,53 @@
+// src/app/api/queue/order/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getSocialMediaPostsCollection } from '@/models/SocialMediaPost';
+import { canUserModifyPost, requireRole } from '@/lib/auth';
+import { reorderQueuedPosts } from '@/services/queueService';
+
+/**
+ * Reorders queued posts: post_ids lists them in their new order and they take
+ * their current slots again, earliest first. Every post that moves must be one
+ * the user may edit.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // --- 1. AUTHORIZATION CHECK ---
+    const user = await requireRole(request, 'author');
+    if (user instanceof NextResponse) return user;
+
+    // --- 2. Validate the request ---
+    const { post_ids } = await request.json();
+    if (!Array.isArray(post_ids) || post_ids.length === 0 || !post_ids.every(id => typeof id === 'string' && ObjectId.isValid(id))) {
+      return NextResponse.json({ error: 'post_ids must be a list of post IDs' }, { status: 400 });
+    }
+    if (new Set(post_ids).size !== post_ids.length) {
+      return NextResponse.json({ error: 'post_ids must not repeat a post' }, { status: 400 });
+    }
+
+    const postsCollection = await getSocialMediaPostsCollection();
+    const found = await postsCollection.find({ _id: { $in: post_ids.map((id: string) => new ObjectId(id)) } }).toArray();
+    if (found.length !== post_ids.length) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+    const posts = post_ids.map((id: string) => found.find(post => post._id.toString() === id)!);
+
+    // Only posts that change slot need the user's permission
+    const slots = posts.map(post => post.scheduled_date.getTime()).sort((a, b) => a - b);
+    if (posts.some((post, index) => post.scheduled_date.getTime() !== slots[index] && !canUserModifyPost(user, post))) {
+      return NextResponse.json({ error: 'Forbidden: You can only move your own posts.' }, { status: 403 });
+    }
+
+    // --- 3. Reorder ---
+    const problem = await reorderQueuedPosts(posts, user);
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 409 });
+    }
+
+    return NextResponse.json({ message: 'Queue reordered' });
+  } catch (error) {
+    console.error('Error reordering queue:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
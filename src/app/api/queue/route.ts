@@ -0,0 +1,96 @@
+// src/app/api/queue/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPostingQueuesCollection, teamFilter } from '@/models/PostingQueue';
+import { getTeamTimeZone } from '@/models/TeamSettings';
+import { getPlatformDefinition } from '@/lib/platforms';
+import { parseQueueSlots } from '@/lib/queueSlots';
+import { requireRole } from '@/lib/auth';
+import { findFreeSlots, getQueuedPosts } from '@/services/queueService';
+
+// How many upcoming free slots GET lists
+const FREE_SLOTS_SHOWN = 5;
+
+// --- GET: The queue of a team (?team=, none for posts without a team) on one platform (?platform=), with its posts ---
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    const { searchParams } = new URL(request.url);
+    const team = searchParams.get('team') || undefined;
+    const platform = searchParams.get('platform')?.toLowerCase();
+    if (!platform || !getPlatformDefinition(platform)) {
+      return NextResponse.json({ error: 'A valid platform is required' }, { status: 400 });
+    }
+
+    const queuesCollection = await getPostingQueuesCollection();
+    const queue = await queuesCollection.findOne({ ...teamFilter(team), platform });
+    const posts = await getQueuedPosts(team, [platform]);
+    const freeSlots = await findFreeSlots(team, [platform], FREE_SLOTS_SHOWN);
+
+    return NextResponse.json({
+      timezone: await getTeamTimeZone(team),
+      queue: queue && { platform: queue.platform, slots: queue.slots, shuffle: queue.shuffle },
+      posts: posts.map(post => ({
+        _id: post._id.toString(),
+        post_text: post.post_text,
+        scheduled_date: post.scheduled_date.toISOString(),
+        status: post.status,
+        platforms: post.platforms,
+        created_by: post.created_by && { ...post.created_by, user_id: post.created_by.user_id.toString() },
+      })),
+      free_slots: freeSlots.map(slot => slot.toISOString()),
+    });
+  } catch (error) {
+    console.error('Error fetching queue:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// --- PUT: Set the slots of a team's queue on one platform (admins only). No slots turns the queue off ---
+export async function PUT(request: NextRequest) {
+  try {
+    // --- 1. AUTHORIZATION CHECK ---
+    const user = await requireRole(request, 'admin');
+    if (user instanceof NextResponse) return user;
+
+    // --- 2. Validate the settings ---
+    const { team, platform, slots, shuffle } = await request.json();
+
+    if (team !== undefined && team !== null && (typeof team !== 'string' || !team)) {
+      return NextResponse.json({ error: 'team must be a team name' }, { status: 400 });
+    }
+    if (typeof platform !== 'string' || !getPlatformDefinition(platform.toLowerCase())) {
+      return NextResponse.json({ error: 'A valid platform is required' }, { status: 400 });
+    }
+    const parsedSlots = parseQueueSlots(slots);
+    if (typeof parsedSlots === 'string') {
+      return NextResponse.json({ error: parsedSlots }, { status: 400 });
+    }
+
+    // --- 3. Upsert ---
+    const queuesCollection = await getPostingQueuesCollection();
+    const now = new Date();
+    const queue = await queuesCollection.findOneAndUpdate(
+      { ...teamFilter(team ?? undefined), platform: platform.toLowerCase() },
+      {
+        $set: { slots: parsedSlots, shuffle: shuffle === true, updated_at: now },
+        $setOnInsert: { ...(team && { team }), platform: platform.toLowerCase(), created_at: now },
+      },
+      { upsert: true, returnDocument: 'after' }
+    );
+
+    if (!queue) {
+      throw new Error('Failed to fetch queue');
+    }
+
+    return NextResponse.json({
+      queue: { platform: queue.platform, slots: queue.slots, shuffle: queue.shuffle },
+      message: 'Queue updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating queue:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
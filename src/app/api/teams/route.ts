@@ -0,0 +1,116 @@
+// src/app/api/teams/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDefaultTimeZone, getTeamSettingsCollection, TeamSettings, DispatchMode } from '@/models/TeamSettings';
+import { getUsersCollection } from '@/models/User';
+import { getDefaultDispatchMode } from '@/services/dispatchers';
+import { requireRole } from '@/lib/auth';
+import { isValidTimeZone } from '@/lib/timezones';
+
+const DISPATCH_MODES: DispatchMode[] = ['direct', 'webhook'];
+
+// --- GET: List team settings along with the global defaults ---
+export async function GET() {
+  try {
+    const teamSettingsCollection = await getTeamSettingsCollection();
+    const teams = await teamSettingsCollection.find({}).sort({ team: 1 }).toArray();
+
+    return NextResponse.json({
+      teams: teams.map(settings => ({
+        ...settings,
+        _id: settings._id.toString(),
+        approver_ids: settings.approver_ids?.map(id => id.toString()),
+        created_at: settings.created_at.toISOString(),
+        updated_at: settings.updated_at.toISOString(),
+      })),
+      defaults: {
+        dispatch_mode: getDefaultDispatchMode(),
+        timezone: getDefaultTimeZone(),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching team settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// --- PUT: Create or update the settings of one team ---
+export async function PUT(request: NextRequest) {
+  try {
+    // --- 1. AUTHORIZATION CHECK ---
+    const user = await requireRole(request, 'admin');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+    const { team, dispatch_mode, approver_ids, timezone } = body;
+
+    // --- 2. Validate the settings ---
+    if (!team || typeof team !== 'string') {
+      return NextResponse.json({ error: 'Team is required' }, { status: 400 });
+    }
+
+    if (dispatch_mode !== undefined && dispatch_mode !== null && !DISPATCH_MODES.includes(dispatch_mode)) {
+      return NextResponse.json({ error: `dispatch_mode must be one of: ${DISPATCH_MODES.join(', ')}` }, { status: 400 });
+    }
+
+    if (timezone !== undefined && timezone !== null && !isValidTimeZone(timezone)) {
+      return NextResponse.json({ error: 'timezone must be an IANA time zone, e.g. Europe/Berlin' }, { status: 400 });
+    }
+
+    // Approvers must be existing users who are allowed to approve
+    let approverIds: ObjectId[] | undefined;
+    if (approver_ids !== undefined) {
+      if (!Array.isArray(approver_ids) || !approver_ids.every(id => typeof id === 'string' && ObjectId.isValid(id))) {
+        return NextResponse.json({ error: 'approver_ids must be a list of user IDs' }, { status: 400 });
+      }
+
+      approverIds = approver_ids.map((id: string) => new ObjectId(id));
+      const usersCollection = await getUsersCollection();
+      const approverCount = await usersCollection.countDocuments({
+        _id: { $in: approverIds },
+        role: { $in: ['approver', 'admin'] },
+      });
+      if (approverCount !== approverIds.length) {
+        return NextResponse.json({ error: 'Every approver must be a user with the approver or admin role' }, { status: 400 });
+      }
+    }
+
+    // --- 3. Upsert. Fields left out stay as they are; a null dispatch_mode or timezone
+    // falls back to the global default and an empty approver list lets every approver review ---
+    const teamSettingsCollection = await getTeamSettingsCollection();
+    const now = new Date();
+    const $set: Partial<TeamSettings> = { updated_at: now };
+    if (dispatch_mode) $set.dispatch_mode = dispatch_mode;
+    if (approverIds) $set.approver_ids = approverIds;
+    if (timezone) $set.timezone = timezone;
+    const $unset: { dispatch_mode?: ''; timezone?: '' } = {};
+    if (dispatch_mode === null) $unset.dispatch_mode = '';
+    if (timezone === null) $unset.timezone = '';
+    const update = Object.keys($unset).length > 0 ? { $set, $unset } : { $set };
+
+    const settings = await teamSettingsCollection.findOneAndUpdate(
+      { team },
+      { ...update, $setOnInsert: { team, created_at: now } },
+      { upsert: true, returnDocument: 'after' }
+    );
+
+    if (!settings) {
+      throw new Error('Failed to fetch team settings');
+    }
+
+    return NextResponse.json({
+      team: {
+        ...settings,
+        _id: settings._id.toString(),
+        approver_ids: settings.approver_ids?.map(id => id.toString()),
+        created_at: settings.created_at.toISOString(),
+        updated_at: settings.updated_at.toISOString(),
+      },
+      message: 'Team settings updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating team settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,151 @@
+// src/app/api/users/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { MongoServerError, ObjectId } from 'mongodb';
+import { getUsersCollection, normalizeEmail, toPublicUser, User } from '@/models/User';
+import { hashPassword, MIN_PASSWORD_LENGTH } from '@/lib/passwords';
+import { isUserRole } from '@/lib/roles';
+import { requireRole, startSession } from '@/lib/auth';
+
+// --- GET: List all user accounts (admins only) ---
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await requireRole(request, 'admin');
+    if (currentUser instanceof NextResponse) return currentUser;
+
+    const usersCollection = await getUsersCollection();
+    const users = await usersCollection.find({}).sort({ name: 1 }).toArray();
+
+    return NextResponse.json({ users: users.map(toPublicUser) });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// --- POST: Create an account. Admins only, except for the very first account,
+// which anyone may create and which always becomes an admin. ---
+export async function POST(request: NextRequest) {
+  try {
+    const { email, name, password, role } = await request.json();
+
+    // --- 1. AUTHORIZATION CHECK ---
+    const usersCollection = await getUsersCollection();
+    const isFirstUser = (await usersCollection.countDocuments({}, { limit: 1 })) === 0;
+    if (!isFirstUser) {
+      const currentUser = await requireRole(request, 'admin');
+      if (currentUser instanceof NextResponse) return currentUser;
+    }
+
+    // --- 2. Validate the account ---
+    if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(email.trim())) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+    }
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, { status: 400 });
+    }
+
+    if (!isFirstUser && !isUserRole(role)) {
+      return NextResponse.json({ error: 'role must be one of: viewer, author, approver, admin' }, { status: 400 });
+    }
+
+    // --- 3. Create it ---
+    const now = new Date();
+    const newUser: User = {
+      email: normalizeEmail(email),
+      name: name.trim(),
+      role: isFirstUser ? 'admin' : role,
+      password_hash: await hashPassword(password),
+      created_at: now,
+      updated_at: now,
+    };
+
+    let insertedId: ObjectId;
+    try {
+      insertedId = (await usersCollection.insertOne(newUser)).insertedId;
+    } catch (error) {
+      if (error instanceof MongoServerError && error.code === 11000) {
+        return NextResponse.json({ error: 'An account with this email already exists' }, { status: 409 });
+      }
+      throw error;
+    }
+
+    const response = NextResponse.json(
+      { user: toPublicUser({ ...newUser, _id: insertedId }), message: 'User created successfully' },
+      { status: 201 }
+    );
+    // Whoever sets up the first account is signed straight in
+    if (isFirstUser) await startSession(response, insertedId);
+    return response;
+  } catch (error) {
+    console.error('Error creating user:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// --- PUT: Change a user's name, role or password, or disable the account (admins only) ---
+export async function PUT(request: NextRequest) {
+  try {
+    const currentUser = await requireRole(request, 'admin');
+    if (currentUser instanceof NextResponse) return currentUser;
+
+    const { id, name, role, password, disabled } = await request.json();
+
+    if (!id || !ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+    }
+
+    const update: Partial<User> = { updated_at: new Date() };
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return NextResponse.json({ error: 'Name cannot be empty' }, { status: 400 });
+      }
+      update.name = name.trim();
+    }
+
+    if (role !== undefined) {
+      if (!isUserRole(role)) {
+        return NextResponse.json({ error: 'role must be one of: viewer, author, approver, admin' }, { status: 400 });
+      }
+      update.role = role;
+    }
+
+    if (password !== undefined) {
+      if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return NextResponse.json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, { status: 400 });
+      }
+      update.password_hash = await hashPassword(password);
+    }
+
+    if (disabled !== undefined) {
+      update.disabled = disabled === true;
+    }
+
+    // Admins can't lock themselves out
+    if (currentUser._id.equals(id) && ((update.role && update.role !== 'admin') || update.disabled)) {
+      return NextResponse.json({ error: 'You cannot remove your own admin access' }, { status: 400 });
+    }
+
+    const usersCollection = await getUsersCollection();
+    const user = await usersCollection.findOneAndUpdate(
+      { _id: new ObjectId(id) },
+      { $set: update },
+      { returnDocument: 'after' }
+    );
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ user: toPublicUser(user), message: 'User updated successfully' });
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,336 @@
+"use client";
+
+import { useEffect, useState, type DragEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, ChevronLeft, ChevronRight, Repeat } from 'lucide-react';
+import { Alert } from '@heroui/react';
+import {
+  CalendarDate,
+  endOfMonth,
+  fromDate,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+  toCalendarDate,
+  today,
+} from '@internationalized/date';
+import { canModifyPost, hasRole } from '@/lib/roles';
+import { getPlatformDefinition } from '@/lib/platforms';
+import { getBrowserTimeZone } from '@/lib/timezones';
+import { WEEKDAY_LABELS } from '@/lib/recurrence';
+import UserMenu, { useCurrentUser } from '@/components/UserMenu';
+
+type PostStatus = 'draft' | 'in_review' | 'changes_requested' | 'approved' | 'pending' | 'processing' | 'posted' | 'failed' | 'partial_success' | 'deleted';
+
+interface Post {
+  _id: string;
+  post_text: string;
+  scheduled_date: string;
+  timezone?: string;
+  status: PostStatus;
+  platforms: string[];
+  created_by?: { user_id: string; name: string };
+  recurrence?: object;
+}
+
+type CalendarMode = 'month' | 'week';
+type ColorBy = 'status' | 'platform';
+
+// Posts that haven't been approved yet; only these can be moved. Moving an
+// approved post would silently send it back to review.
+const RESCHEDULABLE_STATUSES: PostStatus[] = ['draft', 'in_review', 'pending'];
+
+const STATUS_COLORS: Record<PostStatus, { color: string; label: string }> = {
+  draft: { color: 'bg-gray-500', label: 'Draft' },
+  in_review: { color: 'bg-yellow-500', label: 'In Review' },
+  pending: { color: 'bg-yellow-500', label: 'In Review' },
+  changes_requested: { color: 'bg-orange-500', label: 'Changes Requested' },
+  approved: { color: 'bg-teal-500', label: 'Approved' },
+  processing: { color: 'bg-indigo-500', label: 'Processing' },
+  posted: { color: 'bg-green-500', label: 'Posted' },
+  failed: { color: 'bg-red-500', label: 'Failed' },
+  partial_success: { color: 'bg-blue-500', label: 'Partial Success' },
+  deleted: { color: 'bg-gray-400', label: 'Deleted' },
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+// Upper bound on the posts loaded for one month
+const MAX_POSTS = 500;
+
+// Whole weeks covering the month, or the week, of the given day (weeks start on Sunday)
+function getVisibleDays(mode: CalendarMode, anchor: CalendarDate): CalendarDate[] {
+  const first = startOfWeek(mode === 'month' ? startOfMonth(anchor) : anchor, 'en-US');
+  const weeks = mode === 'month' ? Math.ceil((endOfMonth(anchor).compare(first) + 1) / 7) : 1;
+  return Array.from({ length: weeks * 7 }, (_, index) => first.add({ days: index }));
+}
+
+// Month calendar of scheduled posts with a week view. Posts that haven't gone out
+// can be dragged to another day (or hour, in the week view) by whoever may edit them.
+export default function CalendarPage() {
+  const router = useRouter();
+  const { user, loading: sessionLoading } = useCurrentUser();
+  const timeZone = user?.timezone ?? getBrowserTimeZone();
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [colorBy, setColorBy] = useState<ColorBy>('status');
+  const [anchor, setAnchor] = useState(() => today(getBrowserTimeZone()));
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Kept apart from `error` so a reload after a failed move doesn't hide why it failed
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [draggedPostId, setDraggedPostId] = useState<string | null>(null);
+  // Bumped to load the posts again after a change
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const days = getVisibleDays(mode, anchor);
+  const rangeStart = days[0].toDate(timeZone).toISOString();
+  const rangeEnd = days[days.length - 1].add({ days: 1 }).toDate(timeZone).toISOString();
+
+  useEffect(() => {
+    setLoading(true);
+    setLoadError(null);
+    fetch(`/api/posts?from=${encodeURIComponent(rangeStart)}&to=${encodeURIComponent(rangeEnd)}&limit=${MAX_POSTS}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to fetch posts');
+        setPosts(data.posts);
+      })
+      .catch(err => {
+        console.error('Error fetching posts:', err);
+        setLoadError('Failed to connect to the server. Please check your connection.');
+      })
+      .finally(() => setLoading(false));
+  }, [rangeStart, rangeEnd, reloadKey]);
+
+  const zonedSchedule = (post: Post) => fromDate(new Date(post.scheduled_date), timeZone);
+
+  const postsOn = (day: CalendarDate, hour?: number) => posts.filter(post => {
+    const scheduled = zonedSchedule(post);
+    return toCalendarDate(scheduled).compare(day) === 0 && (hour === undefined || scheduled.hour === hour);
+  });
+
+  // Same rules as the dashboard's Edit button; the API checks them again
+  const canReschedule = (post: Post) =>
+    canModifyPost(user, post.created_by?.user_id) && RESCHEDULABLE_STATUSES.includes(post.status) && !post.recurrence;
+
+  const getColors = (post: Post) => colorBy === 'status'
+    ? [STATUS_COLORS[post.status]?.color ?? 'bg-gray-500']
+    : post.platforms.map(platform => getPlatformDefinition(platform.toLowerCase())?.color ?? 'bg-gray-500');
+
+  // Moves a post to another day, keeping its time of day, or to another hour, keeping its minutes
+  const reschedule = async (post: Post, day: CalendarDate, hour?: number) => {
+    const current = zonedSchedule(post);
+    const target = current.set({ year: day.year, month: day.month, day: day.day, ...(hour !== undefined && { hour }) });
+    if (target.compare(current) === 0) return;
+    if (target.toDate() < new Date()) {
+      setError('Posts can only be moved to a time in the future.');
+      return;
+    }
+
+    const scheduledDate = target.toDate().toISOString();
+    setError(null);
+    setMessage(null);
+    setPosts(prev => prev.map(item => item._id === post._id ? { ...item, scheduled_date: scheduledDate } : item));
+
+    try {
+      const formData = new FormData();
+      formData.append('id', post._id);
+      formData.append('postData', JSON.stringify({ scheduled_date: scheduledDate }));
+      const response = await fetch('/api/posts', { method: 'PUT', body: formData });
+      const data = await response.json();
+      if (response.ok) {
+        setMessage('Post rescheduled.');
+      } else {
+        setError(data.error || 'Failed to reschedule post');
+      }
+    } catch (err) {
+      console.error('Error rescheduling post:', err);
+      setError('Failed to reschedule post. Please try again.');
+    }
+    setReloadKey(key => key + 1);
+  };
+
+  const handleDragStart = (e: DragEvent, post: Post) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', post._id);
+    setDraggedPostId(post._id);
+  };
+
+  const handleDragOver = (e: DragEvent) => {
+    if (!draggedPostId) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+  };
+
+  const handleDrop = (e: DragEvent, day: CalendarDate, hour?: number) => {
+    e.preventDefault();
+    const post = posts.find(item => item._id === draggedPostId);
+    setDraggedPostId(null);
+    if (post) reschedule(post, day, hour);
+  };
+
+  const navigate = (direction: 1 | -1) => {
+    setAnchor(prev => mode === 'month' ? prev.add({ months: direction }) : prev.add({ weeks: direction }));
+  };
+
+  const formatTime = (post: Post) =>
+    new Date(post.scheduled_date).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone });
+
+  const title = mode === 'month'
+    ? anchor.toDate(timeZone).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone })
+    : `${days[0].toDate(timeZone).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone })} – ${days[6].toDate(timeZone).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone })}`;
+
+  const legend = colorBy === 'status'
+    ? Object.entries(STATUS_COLORS).filter(([status]) => status !== 'pending').map(([, info]) => info)
+    : [...new Set(posts.flatMap(post => post.platforms.map(platform => platform.toLowerCase())))].map(platform => ({
+        color: getPlatformDefinition(platform)?.color ?? 'bg-gray-500',
+        label: getPlatformDefinition(platform)?.label ?? platform,
+      }));
+
+  const renderPost = (post: Post) => {
+    const draggable = canReschedule(post);
+    return (
+      <div
+        key={post._id}
+        draggable={draggable}
+        onDragStart={(e) => handleDragStart(e, post)}
+        onDragEnd={() => setDraggedPostId(null)}
+        onClick={() => draggable && router.push(`/posts?edit=${post._id}`)}
+        title={`${STATUS_COLORS[post.status]?.label ?? post.status} · ${post.platforms.join(', ')}${post.created_by ? ` · by ${post.created_by.name}` : ''}\n${post.post_text}`}
+        className={`flex items-stretch gap-1.5 rounded bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-xs overflow-hidden ${
+          draggable ? 'cursor-grab hover:border-blue-500' : 'cursor-default'
+        } ${draggedPostId === post._id ? 'opacity-50' : ''}`}
+      >
+        <span className="flex flex-col w-1.5 flex-shrink-0">
+          {getColors(post).map((color, index) => <span key={index} className={`flex-1 ${color}`} />)}
+        </span>
+        <span className="py-0.5 pr-1 truncate">
+          <span className="font-semibold text-gray-700 dark:text-gray-200">{formatTime(post)}</span>{' '}
+          {post.recurrence && <Repeat className="inline w-3 h-3 text-indigo-500" />}{' '}
+          <span className="text-gray-600 dark:text-gray-400">{post.post_text}</span>
+        </span>
+      </div>
+    );
+  };
+
+  const toggleClassName = (active: boolean) =>
+    `px-3 py-1.5 rounded-full font-semibold transition-colors ${active ? 'bg-blue-600 text-white' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-800'}`;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950 text-gray-900 dark:text-gray-100 font-sans">
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 md:py-12 space-y-6">
+        <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <h1 className="text-3xl md:text-4xl font-bold tracking-tight text-gray-900 dark:text-white">Calendar</h1>
+          <div className="flex items-center gap-4">
+            <UserMenu user={user} loading={sessionLoading} />
+            <button onClick={() => router.push('/')} className="flex items-center gap-2 text-sm font-semibold text-blue-600 hover:text-blue-700 dark:text-blue-400">
+              <ArrowLeft className="h-4 w-4" /> Back to Dashboard
+            </button>
+          </div>
+        </header>
+
+        {loadError && <Alert color="danger" title="Error" description={loadError} />}
+        {error && <Alert color="danger" title="Error" description={error} />}
+        {message && <Alert color="success" title={message} />}
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <button onClick={() => navigate(-1)} title="Previous" className="p-1.5 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-800">
+              <ChevronLeft className="h-5 w-5" />
+            </button>
+            <button onClick={() => navigate(1)} title="Next" className="p-1.5 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-800">
+              <ChevronRight className="h-5 w-5" />
+            </button>
+            <button onClick={() => setAnchor(today(timeZone))} className="px-3 py-1.5 text-sm font-semibold rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-800">
+              Today
+            </button>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{title}</h2>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <div className="flex gap-1">
+              {(['month', 'week'] as const).map(option => (
+                <button key={option} onClick={() => setMode(option)} className={toggleClassName(mode === option)}>
+                  {option === 'month' ? 'Month' : 'Week'}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1">
+              <span className="text-gray-500 dark:text-gray-400">Colour by</span>
+              {(['status', 'platform'] as const).map(option => (
+                <button key={option} onClick={() => setColorBy(option)} className={toggleClassName(colorBy === option)}>
+                  {option === 'status' ? 'Status' : 'Platform'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600 dark:text-gray-400">
+          {legend.map(item => (
+            <span key={item.label} className="flex items-center gap-1.5">
+              <span className={`h-2.5 w-2.5 rounded-sm ${item.color}`} /> {item.label}
+            </span>
+          ))}
+          <span className="ml-auto">
+            Times in {timeZone.replace(/_/g, ' ')}{hasRole(user?.role, 'author') && ' · Drag drafts and posts in review to reschedule them'}
+          </span>
+        </div>
+
+        <div className={`bg-white dark:bg-gray-900/70 border border-gray-200 dark:border-gray-800 rounded-xl shadow-sm overflow-hidden ${loading ? 'opacity-60' : ''}`}>
+          <div className="grid grid-cols-7 border-b border-gray-200 dark:border-gray-800 text-xs font-semibold text-gray-500 dark:text-gray-400">
+            {days.slice(0, 7).map((day, index) => (
+              <div key={day.toString()} className="px-2 py-2">
+                {WEEKDAY_LABELS[index]}
+                {mode === 'week' && ` ${day.day}`}
+              </div>
+            ))}
+          </div>
+
+          {mode === 'month' ? (
+            <div className="grid grid-cols-7">
+              {days.map(day => (
+                <div
+                  key={day.toString()}
+                  onDragOver={handleDragOver}
+                  onDrop={(e) => handleDrop(e, day)}
+                  className={`min-h-[7rem] p-1.5 space-y-1 border-b border-r border-gray-100 dark:border-gray-800 ${
+                    isSameMonth(day, anchor) ? '' : 'bg-gray-50 dark:bg-gray-950/50'
+                  }`}
+                >
+                  <div className={`text-xs font-semibold ${
+                    isToday(day, timeZone) ? 'text-blue-600 dark:text-blue-400' : isSameMonth(day, anchor) ? 'text-gray-700 dark:text-gray-300' : 'text-gray-400 dark:text-gray-600'
+                  }`}>
+                    {day.day}
+                  </div>
+                  {postsOn(day).map(renderPost)}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="max-h-[70vh] overflow-y-auto">
+              {HOURS.map(hour => (
+                <div key={hour} className="grid grid-cols-7 border-b border-gray-100 dark:border-gray-800">
+                  {days.map(day => (
+                    <div
+                      key={day.toString()}
+                      onDragOver={handleDragOver}
+                      onDrop={(e) => handleDrop(e, day, hour)}
+                      className={`min-h-[3rem] p-1 space-y-1 border-r border-gray-100 dark:border-gray-800 ${isToday(day, timeZone) ? 'bg-blue-50/50 dark:bg-blue-950/20' : ''}`}
+                    >
+                      {day.compare(days[0]) === 0 && (
+                        <div className="text-[10px] text-gray-400 dark:text-gray-500">{`${hour.toString().padStart(2, '0')}:00`}</div>
+                      )}
+                      {postsOn(day, hour).map(renderPost)}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { LogIn, UserPlus } from 'lucide-react';
+
+// Sign-in page. Until the first account exists it offers to create it; that
+// account becomes the admin who adds everyone else on /users.
+export default function LoginPage() {
+  const router = useRouter();
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.json())
+      .then(data => {
+        if (data.user) router.push('/');
+        else setNeedsSetup(data.needs_setup === true);
+      })
+      .catch(err => console.error('Error loading session:', err));
+  }, [router]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = needsSetup
+        ? await fetch('/api/users', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name, email, password }),
+          })
+        : await fetch('/api/auth/login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email, password }),
+          });
+      const data = await response.json();
+
+      if (response.ok) {
+        router.push('/');
+      } else {
+        setError(data.error || 'Failed to sign in');
+      }
+    } catch (err) {
+      console.error('Sign-in failed:', err);
+      setError('A network error occurred. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName = 'w-full p-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950 text-gray-900 dark:text-gray-100 font-sans flex items-center justify-center px-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white dark:bg-gray-900/70 border border-gray-200 dark:border-gray-800 rounded-xl shadow-sm p-6 space-y-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-gray-900 dark:text-white">{needsSetup ? 'Create the admin account' : 'Sign in'}</h1>
+          {needsSetup && (
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">No accounts exist yet. The first account is an admin and can add the rest of the team.</p>
+          )}
+        </div>
+
+        {needsSetup && (
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+            <input id="name" value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} required />
+          </div>
+        )}
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Email</label>
+          <input id="email" type="email" autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClassName} required />
+        </div>
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Password</label>
+          <input id="password" type="password" autoComplete={needsSetup ? 'new-password' : 'current-password'} value={password} onChange={(e) => setPassword(e.target.value)} className={inputClassName} required />
+        </div>
+
+        {error && <p className="text-sm font-semibold text-red-600">{error}</p>}
+
+        <button type="submit" disabled={isSubmitting} className="w-full flex items-center justify-center gap-2 bg-blue-600 text-white font-semibold px-5 py-2.5 rounded-lg hover:bg-blue-700 transition-colors shadow-sm disabled:bg-gray-400 disabled:cursor-not-allowed">
+          {needsSetup ? <UserPlus className="w-4 h-4" /> : <LogIn className="w-4 h-4" />}
+          {isSubmitting ? 'Please wait...' : needsSetup ? 'Create account' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
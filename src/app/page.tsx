@@ -2,67 +2,111 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { FileText, Clock, CheckCircle, XCircle, AlertTriangle, Plus, RefreshCw, Twitter, Facebook, Instagram, Linkedin, Edit, Trash2 } from 'lucide-react';
+import { FileText, Clock, CheckCircle, XCircle, AlertTriangle, Plus, RefreshCw, Edit, Trash2, Loader, ThumbsUp, MessageSquare, History, Repeat, CalendarDays, ListOrdered } from 'lucide-react';
 import { Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, Button, useDisclosure, Alert } from "@heroui/react";
+import { getPlatformDefinition } from '@/lib/platforms';
+import { canModifyPost, hasRole } from '@/lib/roles';
+import UserMenu, { useCurrentUser } from '@/components/UserMenu';
+import PostTimeline from '@/components/PostTimeline';
+import SeriesOccurrences from '@/components/SeriesOccurrences';
+import { describeRecurrence, RecurrenceFrequency } from '@/lib/recurrence';
+import { getBrowserTimeZone } from '@/lib/timezones';
+import TimeZoneSelect from '@/components/TimeZoneSelect';
 
-// --- Helper Components & Icons (Unchanged) ---
+// --- Helper Components & Icons ---
 const PlatformIcon = ({ platform, className }: { platform: string; className: string }) => {
-    const platformName = platform.toLowerCase();
-    switch (platformName) {
-        case 'twitter':
-            return <Twitter className={className} />;
-        case 'facebook':
-            return <Facebook className={className} />;
-        case 'instagram':
-            return <Instagram className={className} />;
-        case 'linkedin':
-            return <Linkedin className={className} />;
-        default:
-            return <FileText className={className} />; // Default icon
-    }
+    const Icon = getPlatformDefinition(platform)?.icon ?? FileText; // Default icon
+    return <Icon className={className} />;
 };
 
 
 // --- Interfaces (Updated) ---
+interface PlatformResult {
+  status: 'pending' | 'posted' | 'failed';
+  link?: string;
+  error?: string;
+  retryable?: boolean;
+  next_attempt_at?: string;
+  attempts: number;
+  first_attempt_at?: string;
+  last_attempt_at?: string;
+  posted_at?: string;
+}
+
+interface ReviewEvent {
+  action: 'submitted' | 'approved' | 'changes_requested';
+  user: { user_id: string; name: string };
+  comment?: string;
+  created_at: string;
+}
+
 interface Post {
   _id: string;
   post_text: string;
   scheduled_date: string;
+  // Zone the post was scheduled in
+  timezone?: string;
   team?: string;
-  status: 'draft' | 'pending' | 'posted' | 'failed' | 'partial_success' | 'deleted';
+  status: 'draft' | 'in_review' | 'changes_requested' | 'approved' | 'pending' | 'processing' | 'posted' | 'failed' | 'partial_success' | 'deleted';
   platforms: string[];
   created_at: string;
   updated_at: string;
   post_notes?: string;
-  post_media?: string[]; // --- CHANGE: Corrected type to match database schema (array of strings)
+  post_media?: { url: string; type: 'image' | 'video'; alt_text?: string }[];
   post_links?: Record<string, string>;
+  platform_results?: Record<string, PlatformResult>;
+  created_by?: { user_id: string; name: string };
+  updated_by?: { user_id: string; name: string };
+  review_history?: ReviewEvent[];
+  approved_by?: { user_id: string; name: string };
+  recurrence?: { frequency: RecurrenceFrequency; interval?: number; weekdays?: number[]; until?: string; count?: number };
+  queued?: boolean;
+  // Set on the posts created for each occurrence of a recurring series
+  series_id?: string;
+  occurrence_date?: string;
 }
 
 interface Counts {
   total: number;
   draft: number;
-  pending: number;
+  inReview: number;
+  changesRequested: number;
+  approved: number;
+  processing: number;
   posted: number;
   failed: number;
   partialSuccess: number;
   deleted: number;
 }
 
+// 'needs_review' shows only the posts waiting for the signed-in approver
+type PostsView = 'all' | 'needs_review';
+
 // --- Main Dashboard Component (New UI) ---
 export default function Dashboard() {
   // --- State and Hooks (Unchanged) ---
   const [posts, setPosts] = useState<Post[]>([]);
-  const [counts, setCounts] = useState<Counts>({ total: 0, draft: 0, pending: 0, posted: 0, failed: 0, partialSuccess: 0, deleted: 0 });
+  const [counts, setCounts] = useState<Counts>({ total: 0, draft: 0, inReview: 0, changesRequested: 0, approved: 0, processing: 0, posted: 0, failed: 0, partialSuccess: 0, deleted: 0 });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
   const [dataSource, setDataSource] = useState<'mock' | 'live' | null>(null);
-  const [secretKey, setSecretKey] = useState('');
+  const { user, loading: sessionLoading } = useCurrentUser();
   const { isOpen, onOpen, onOpenChange } = useDisclosure();
   const [postToDelete, setPostToDelete] = useState<string | null>(null);
+  const [view, setView] = useState<PostsView>('all');
+  const { isOpen: isReviewOpen, onOpen: onReviewOpen, onOpenChange: onReviewOpenChange } = useDisclosure();
+  const [reviewTarget, setReviewTarget] = useState<{ postId: string; action: 'approve' | 'request_changes' } | null>(null);
+  const [reviewComment, setReviewComment] = useState('');
+  const { isOpen: isHistoryOpen, onOpen: onHistoryOpen, onOpenChange: onHistoryOpenChange } = useDisclosure();
+  const [historyPostId, setHistoryPostId] = useState<string | null>(null);
+  const [expandedSeriesId, setExpandedSeriesId] = useState<string | null>(null);
+  // Zone picked on this page; until then the user's saved one, else the browser's
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+  const viewerTimeZone = timeZone ?? user?.timezone ?? getBrowserTimeZone();
 
   // --- Data Fetching Logic (with Indicator) ---
-  const fetchPosts = async () => {
+  const fetchPosts = async (selectedView: PostsView = 'all') => {
     try {
       setLoading(true);
       setDataSource(null);
@@ -71,19 +115,19 @@ export default function Dashboard() {
       await new Promise(resolve => setTimeout(resolve, 1000));
        // --- CHANGE: Updated mock data to use `post_media` and longer text
       const mockPosts: Post[] = [
-        { _id: '1', post_text: "Excited to announce our new product launch next week! We've been working tirelessly to bring you something truly innovative. This is going to change everything. Stay tuned for more details. #NewProduct #Innovation", scheduled_date: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString(), team: 'Marketing', status: 'pending', platforms: ['Twitter', 'Facebook'], created_at: new Date().toISOString(), updated_at: new Date().toISOString(), post_media: ['https://placehold.co/600x400/3B82F6/FFFFFF?text=Launch+Day!'] },
+        { _id: '1', post_text: "Excited to announce our new product launch next week! We've been working tirelessly to bring you something truly innovative. This is going to change everything. Stay tuned for more details. #NewProduct #Innovation", scheduled_date: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString(), team: 'Marketing', status: 'approved', platforms: ['Twitter', 'Facebook'], created_at: new Date().toISOString(), updated_at: new Date().toISOString(), post_media: [{ url: 'https://placehold.co/600x400/3B82F6/FFFFFF?text=Launch+Day!', type: 'image', alt_text: 'Launch day banner' }] },
         { _id: '2', post_text: "Our weekly team meeting recap is now available on the blog. Check it out to see what we've been working on, including major progress on Project Phoenix and our Q3 goals. It's a deep dive into our current roadmap.", scheduled_date: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(), team: 'Internal Comms', status: 'posted', platforms: ['LinkedIn'], created_at: new Date().toISOString(), updated_at: new Date().toISOString() },
-        { _id: '3', post_text: "A critical API update failed to post to Instagram. The engineering team is actively investigating the issue and we hope to have a resolution shortly. We apologize for any inconvenience this may cause.", scheduled_date: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(), team: 'DevOps', status: 'failed', platforms: ['Instagram'], created_at: new Date().toISOString(), updated_at: new Date().toISOString(), post_media: ['https://placehold.co/600x400/EF4444/FFFFFF?text=API+Error'] },
-        { _id: '4', post_text: "This post was successful on Twitter, but failed on Facebook due to an authentication error. We'll be retrying the Facebook post once the connection is re-established. Thanks for your patience.", scheduled_date: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(), team: 'Marketing', status: 'partial_success', platforms: ['Twitter', 'Facebook'], created_at: new Date().toISOString(), updated_at: new Date().toISOString() },
+        { _id: '3', post_text: "A critical API update failed to post to Instagram. The engineering team is actively investigating the issue and we hope to have a resolution shortly. We apologize for any inconvenience this may cause.", scheduled_date: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(), team: 'DevOps', status: 'failed', platforms: ['Instagram'], created_at: new Date().toISOString(), updated_at: new Date().toISOString(), post_media: [{ url: 'https://placehold.co/600x400/EF4444/FFFFFF?text=API+Error', type: 'image' }] },
+        { _id: '4', post_text: "This post was successful on Twitter, but failed on Facebook due to an authentication error. We'll be retrying the Facebook post once the connection is re-established. Thanks for your patience.", scheduled_date: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(), team: 'Marketing', status: 'partial_success', platforms: ['Twitter', 'Facebook'], created_at: new Date().toISOString(), updated_at: new Date().toISOString(), platform_results: { twitter: { status: 'posted', link: 'https://twitter.com', attempts: 1 }, facebook: { status: 'failed', error: 'Authentication error', attempts: 1 } } },
       ];
       setPosts(mockPosts);
-      setCounts({ total: 4, draft: 0, pending: 1, posted: 1, failed: 1, partialSuccess: 1, deleted: 0 });
+      setCounts({ total: 4, draft: 0, inReview: 0, changesRequested: 0, approved: 1, processing: 0, posted: 1, failed: 1, partialSuccess: 1, deleted: 0 });
       setError(null);
       setDataSource('mock');
 
       
       // Your original, working fetch logic for a real API endpoint
-      const response = await fetch('/api/posts'); 
+      const response = await fetch(selectedView === 'needs_review' ? '/api/posts?view=needs_review' : '/api/posts'); 
       const data = await response.json();
       
       if (response.ok) {
@@ -110,11 +154,6 @@ export default function Dashboard() {
     };
   
     const handleDelete = (postId: string) => {
-      if (!secretKey) {
-        setError('Secret key is required to delete posts.');
-        return;
-      }
-      
       setPostToDelete(postId);
       onOpen();
     };
@@ -133,26 +172,25 @@ export default function Dashboard() {
           const formData = new FormData();
           formData.append('id', postToDelete);
           formData.append('postData', JSON.stringify({ status: 'deleted' }));
-          formData.append('secretKey', ''); // Not required for posted posts
 
           response = await fetch('/api/posts', {
             method: 'PUT',
             body: formData,
           });
         } else {
-          // For draft/pending posts, delete completely
+          // For unpublished posts, delete completely
           response = await fetch('/api/posts', {
             method: 'DELETE',
             headers: {
               'Content-Type': 'application/json',
             },
-            body: JSON.stringify({ id: postToDelete, secretKey }),
+            body: JSON.stringify({ id: postToDelete }),
           });
         }
 
         if (response.ok) {
           // Refresh the posts list
-          fetchPosts();
+          fetchPosts(view);
         } else {
           const data = await response.json();
           setError(data.error || 'Failed to delete post');
@@ -165,6 +203,47 @@ export default function Dashboard() {
       }
     };
   
+    const openReview = (postId: string, action: 'approve' | 'request_changes') => {
+      setReviewTarget({ postId, action });
+      setReviewComment('');
+      onReviewOpen();
+    };
+
+    const confirmReview = async () => {
+      if (!reviewTarget) return;
+
+      try {
+        const response = await fetch('/api/posts/review', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ id: reviewTarget.postId, action: reviewTarget.action, comment: reviewComment }),
+        });
+
+        if (response.ok) {
+          fetchPosts(view);
+        } else {
+          const data = await response.json();
+          setError(data.error || 'Failed to review post');
+        }
+      } catch (error) {
+        console.error('Error reviewing post:', error);
+        setError('Failed to review post. Please try again.');
+      } finally {
+        setReviewTarget(null);
+      }
+    };
+
+    const openHistory = (postId: string) => {
+      setHistoryPostId(postId);
+      onHistoryOpen();
+    };
+
+    // Approvers can't review their own posts (admins can); team approver lists are checked by the API
+    const canReview = (post: Post) =>
+      post.status === 'in_review' &&
+      hasRole(user?.role, 'approver') &&
+      (hasRole(user?.role, 'admin') || post.created_by?.user_id !== user?.id);
+  
     useEffect(() => {
       fetchPosts();
     }, []);
@@ -172,7 +251,11 @@ export default function Dashboard() {
   const getStatusInfo = (status: Post['status']): { color: string; dotColor: string; label: string } => {
     switch (status) {
       case 'draft': return { color: 'text-gray-600 dark:text-gray-400', dotColor: 'bg-gray-500', label: 'Draft' };
-      case 'pending': return { color: 'text-yellow-600 dark:text-yellow-400', dotColor: 'bg-yellow-500', label: 'Pending' };
+      case 'in_review': return { color: 'text-yellow-600 dark:text-yellow-400', dotColor: 'bg-yellow-500', label: 'In Review' };
+      case 'changes_requested': return { color: 'text-orange-600 dark:text-orange-400', dotColor: 'bg-orange-500', label: 'Changes Requested' };
+      case 'approved': return { color: 'text-teal-600 dark:text-teal-400', dotColor: 'bg-teal-500', label: 'Approved' };
+      case 'pending': return { color: 'text-yellow-600 dark:text-yellow-400', dotColor: 'bg-yellow-500', label: 'Pending Review' };
+      case 'processing': return { color: 'text-indigo-600 dark:text-indigo-400', dotColor: 'bg-indigo-500', label: 'Processing' };
       case 'posted': return { color: 'text-green-600 dark:text-green-400', dotColor: 'bg-green-500', label: 'Posted' };
       case 'failed': return { color: 'text-red-600 dark:text-red-400', dotColor: 'bg-red-500', label: 'Failed' };
       case 'partial_success': return { color: 'text-blue-600 dark:text-blue-400', dotColor: 'bg-blue-500', label: 'Partial Success' };
@@ -181,9 +264,46 @@ export default function Dashboard() {
     }
   };
 
-  const formatDateTime = (dateString: string) => {
+  const getPlatformResultInfo = (result?: PlatformResult): { iconColor: string; label: string } => {
+    switch (result?.status) {
+      case 'posted': return { iconColor: 'text-green-600 dark:text-green-400', label: 'Posted' };
+      case 'failed': return { iconColor: 'text-red-600 dark:text-red-400', label: 'Failed' };
+      default: return { iconColor: 'text-gray-400 dark:text-gray-500', label: 'Not attempted' };
+    }
+  };
+
+  const describePlatformResult = (platform: string, result?: PlatformResult) => {
+    const info = getPlatformResultInfo(result);
+    const parts = [`${platform}: ${info.label}`];
+    if (result?.error) parts.push(result.error);
+    if (result && result.attempts > 0) parts.push(`${result.attempts} attempt${result.attempts === 1 ? '' : 's'}`);
+    if (result?.last_attempt_at) parts.push(`last ${formatDateTime(result.last_attempt_at)}`);
+    if (result?.status === 'failed') {
+      parts.push(result.next_attempt_at ? `retry ${formatDateTime(result.next_attempt_at)}` : 'no automatic retry');
+    }
+    return parts.join(' · ');
+  };
+
+  // Signed-in users keep the zone for next time
+  const handleTimeZoneChange = async (selectedTimeZone: string) => {
+    setTimeZone(selectedTimeZone);
+    if (!user) return;
+    try {
+      const response = await fetch('/api/auth/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timezone: selectedTimeZone }),
+      });
+      if (!response.ok) console.error('Failed to save time zone:', response.status);
+    } catch (err) {
+      console.error('Error saving time zone:', err);
+    }
+  };
+
+  // Renders in the viewer's zone (or the given one); the zone name shows whether DST applies
+  const formatDateTime = (dateString: string, displayTimeZone: string = viewerTimeZone) => {
     if (!dateString) return 'N/A';
-    return new Date(dateString).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+    return new Date(dateString).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit', timeZone: displayTimeZone, timeZoneName: 'short' });
   };
 
   const formatScheduledTime = (scheduledDate: string, status:string) => {
@@ -205,7 +325,10 @@ export default function Dashboard() {
   const stats = [
     { label: 'Total', value: counts.total, Icon: FileText, color: 'text-gray-900 dark:text-white' },
     { label: 'Drafts', value: counts.draft, Icon: FileText, color: 'text-gray-600 dark:text-gray-400' },
-    { label: 'Pending', value: counts.pending, Icon: Clock, color: 'text-yellow-600 dark:text-yellow-400' },
+    { label: 'In Review', value: counts.inReview, Icon: Clock, color: 'text-yellow-600 dark:text-yellow-400' },
+    { label: 'Changes Requested', value: counts.changesRequested, Icon: MessageSquare, color: 'text-orange-600 dark:text-orange-400' },
+    { label: 'Approved', value: counts.approved, Icon: ThumbsUp, color: 'text-teal-600 dark:text-teal-400' },
+    { label: 'Processing', value: counts.processing, Icon: Loader, color: 'text-indigo-600 dark:text-indigo-400' },
     { label: 'Posted', value: counts.posted, Icon: CheckCircle, color: 'text-green-600 dark:text-green-400' },
     { label: 'Failed', value: counts.failed, Icon: XCircle, color: 'text-red-600 dark:text-red-400' },
     { label: 'Partial Success', value: counts.partialSuccess, Icon: AlertTriangle, color: 'text-blue-600 dark:text-blue-400' },
@@ -233,31 +356,29 @@ export default function Dashboard() {
             )}
           </div>
           <div className="flex flex-col md:flex-row items-start md:items-center gap-3 mt-4 md:mt-0">
-            <div className="flex items-center gap-2">
-              <label htmlFor="dashboardSecretKey" className="text-sm font-medium text-gray-700 dark:text-gray-300">Secret Key:</label>
-              <input
-                id="dashboardSecretKey"
-                type="password"
-                value={secretKey}
-                onChange={(e) => setSecretKey(e.target.value)}
-                placeholder="Enter secret key for deletions"
-                className="px-2 py-1 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded text-sm"
-              />
-            </div>
+            <UserMenu user={user} loading={sessionLoading} />
             <div className="flex items-center gap-3">
-              <button onClick={() => fetchPosts()} disabled={loading} className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-800 transition-colors disabled:opacity-50">
+              <button onClick={() => fetchPosts(view)} disabled={loading} className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-800 transition-colors disabled:opacity-50">
                 <RefreshCw className={`h-5 w-5 ${loading ? 'animate-spin' : ''}`} />
               </button>
-              <button onClick={() => router.push('/posts')} className="flex items-center gap-2 bg-blue-600 text-white font-semibold px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors shadow-sm">
-                <Plus className="h-5 w-5" />
-                Create
+              <button onClick={() => router.push('/calendar')} title="Calendar" className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-800 transition-colors">
+                <CalendarDays className="h-5 w-5" />
               </button>
+              <button onClick={() => router.push('/queue')} title="Queue" className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-800 transition-colors">
+                <ListOrdered className="h-5 w-5" />
+              </button>
+              {hasRole(user?.role, 'author') && (
+                <button onClick={() => router.push('/posts')} className="flex items-center gap-2 bg-blue-600 text-white font-semibold px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors shadow-sm">
+                  <Plus className="h-5 w-5" />
+                  Create
+                </button>
+              )}
             </div>
           </div>
         </header>
 
-        {/* Stats Cards (Updated to include Deleted) */}
-        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-5 mb-8 md:mb-10">
+        {/* Stats Cards (Updated to include Processing and Deleted) */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-5 gap-5 mb-8 md:mb-10">
           {stats.map((stat) => (
             <div key={stat.label} className="bg-white dark:bg-gray-900/70 border border-gray-200 dark:border-gray-800 rounded-xl p-5 shadow-sm hover:shadow-md transition-shadow duration-300">
               <div className="flex items-center justify-between space-x-2">
@@ -271,7 +392,34 @@ export default function Dashboard() {
 
         {/* Main Content: Posts List */}
         <div className="space-y-6">
-          <h2 className="text-2xl font-semibold text-gray-900 dark:text-white">Recent Activity</h2>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-2xl font-semibold text-gray-900 dark:text-white">{view === 'needs_review' ? 'Needs My Review' : 'Recent Activity'}</h2>
+            <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+              <label htmlFor="viewerTimeZone">Times in</label>
+              <TimeZoneSelect
+                id="viewerTimeZone"
+                value={viewerTimeZone}
+                onChange={handleTimeZoneChange}
+                className="max-w-[16rem] px-2 py-1 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg"
+              />
+            </div>
+            {hasRole(user?.role, 'approver') && (
+              <div className="flex gap-1 text-sm">
+                {(['all', 'needs_review'] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => {
+                      setView(option);
+                      fetchPosts(option);
+                    }}
+                    className={`px-3 py-1.5 rounded-full font-semibold transition-colors ${view === option ? 'bg-blue-600 text-white' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-800'}`}
+                  >
+                    {option === 'all' ? 'All posts' : 'Needs my review'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
           
           {error && (
             <div className="sticky top-0 z-50 pt-4 mb-4">
@@ -315,6 +463,9 @@ export default function Dashboard() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               {posts.map((post) => {
                 const statusInfo = getStatusInfo(post.status);
+                const canModify = canModifyPost(user, post.created_by?.user_id);
+                const isUnpublished = ['draft', 'in_review', 'changes_requested', 'approved', 'pending'].includes(post.status);
+                const lastReview = post.review_history?.[post.review_history.length - 1];
                 const firstImage = post.post_media && post.post_media.length > 0 ? post.post_media[0] : null;
 
                 return (
@@ -324,8 +475,8 @@ export default function Dashboard() {
                         {/* Post Image */}
                         {firstImage && (
                             <img 
-                            src={firstImage} 
-                            alt="Post media" 
+                            src={firstImage.url} 
+                            alt={firstImage.alt_text || 'Post media'} 
                             className="w-24 h-24 object-cover rounded-lg flex-shrink-0"
                             onError={(e) => {
                                 const target = e.target as HTMLImageElement;
@@ -339,6 +490,57 @@ export default function Dashboard() {
                         {/* --- CHANGE: Added min-w-0 to prevent text overflow in flexbox --- */}
                         <div className="flex-grow min-w-0">
                             <p className="text-gray-800 dark:text-gray-200 leading-relaxed line-clamp-4 break-words">{post.post_text}</p>
+                            {/* Reviewer feedback waiting for the author */}
+                            {post.status === 'changes_requested' && lastReview?.action === 'changes_requested' && (
+                              <p className="mt-2 text-xs text-orange-600 dark:text-orange-400 break-words">
+                                <span className="font-semibold">{lastReview.user.name}</span>: {lastReview.comment}
+                              </p>
+                            )}
+                            {post.status === 'approved' && post.approved_by && (
+                              <p className="mt-2 text-xs text-teal-600 dark:text-teal-400">Approved by {post.approved_by.name}</p>
+                            )}
+                            {post.recurrence && (
+                              <p className="mt-2 flex items-center gap-1 text-xs text-indigo-600 dark:text-indigo-400">
+                                <Repeat className="w-3 h-3" />
+                                {describeRecurrence(post.recurrence)}
+                                <button
+                                  onClick={() => setExpandedSeriesId(expandedSeriesId === post._id ? null : post._id)}
+                                  className="ml-1 underline hover:text-indigo-800 dark:hover:text-indigo-300"
+                                >
+                                  {expandedSeriesId === post._id ? 'Hide upcoming' : 'Show upcoming'}
+                                </button>
+                              </p>
+                            )}
+                            {post.recurrence && expandedSeriesId === post._id && (
+                              <SeriesOccurrences seriesId={post._id} canModify={canModify} timeZone={viewerTimeZone} onEdit={handleEdit} />
+                            )}
+                            {post.series_id && (
+                              <p className="mt-2 flex items-center gap-1 text-xs text-indigo-600 dark:text-indigo-400">
+                                <Repeat className="w-3 h-3" />
+                                Occurrence of a recurring post
+                              </p>
+                            )}
+                            {post.queued && (
+                              <p className="mt-2 flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400">
+                                <ListOrdered className="w-3 h-3" />
+                                In the posting queue
+                              </p>
+                            )}
+                            {/* Per-platform failures */}
+                            {post.platform_results && Object.entries(post.platform_results).some(([, result]) => result.status === 'failed') && (
+                              <ul className="mt-2 space-y-1">
+                                {Object.entries(post.platform_results)
+                                  .filter(([, result]) => result.status === 'failed')
+                                  .map(([platform, result]) => (
+                                    <li key={platform} className="text-xs text-red-600 dark:text-red-400 break-words">
+                                      <span className="font-semibold capitalize">{platform}</span>: {result.error || 'Failed'}
+                                      {result.next_attempt_at && (
+                                        <span className="text-gray-500 dark:text-gray-400"> · retrying {formatDateTime(result.next_attempt_at)}</span>
+                                      )}
+                                    </li>
+                                  ))}
+                              </ul>
+                            )}
                         </div>
                     </div>
 
@@ -349,7 +551,12 @@ export default function Dashboard() {
                           <div className="flex items-center gap-2">
                             {post.platforms.map((platform) => {
                               const platformKey = platform.toLowerCase();
-                              const linkUrl = post.status === 'posted' && post.post_links?.[platformKey] ? post.post_links[platformKey] : null;
+                              const platformResult = post.platform_results?.[platformKey];
+                              const resultInfo = getPlatformResultInfo(platformResult);
+                              const description = describePlatformResult(platform, platformResult);
+                              const linkUrl = platformResult?.status === 'posted'
+                                ? platformResult.link || post.post_links?.[platformKey]
+                                : post.status === 'posted' ? post.post_links?.[platformKey] : null;
                               if (linkUrl) {
                                 return (
                                   <a
@@ -357,17 +564,26 @@ export default function Dashboard() {
                                     href={linkUrl}
                                     target="_blank"
                                     rel="noopener noreferrer"
+                                    title={description}
                                     className="hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
                                   >
-                                    <PlatformIcon platform={platform} className="h-5 w-5 text-gray-400 dark:text-gray-500" />
+                                    <PlatformIcon platform={platform} className={`h-5 w-5 ${resultInfo.iconColor}`} />
                                   </a>
                                 );
                               }
-                              return <PlatformIcon key={platform} platform={platform} className="h-5 w-5 text-gray-400 dark:text-gray-500" />;
+                              return (
+                                <span key={platform} title={description}>
+                                  <PlatformIcon platform={platform} className={`h-5 w-5 ${resultInfo.iconColor}`} />
+                                </span>
+                              );
                             })}
                           </div>
-                          <div className="text-sm text-gray-500 dark:text-gray-400">
+                          <div
+                            className="text-sm text-gray-500 dark:text-gray-400"
+                            title={post.timezone && post.timezone !== viewerTimeZone ? `Scheduled for ${formatDateTime(post.scheduled_date, post.timezone)} (${post.timezone})` : undefined}
+                          >
                                {formatDateTime(post.scheduled_date)} ({formatScheduledTime(post.scheduled_date,post.status)})
+                               {post.created_by && <span> · by {post.created_by.name}</span>}
                           </div>
                         </div>
                         <div className="flex items-center gap-2 flex-shrink-0">
@@ -377,8 +593,37 @@ export default function Dashboard() {
                       </div>
                       {/* Buttons for posts */}
                       <div className="flex justify-end gap-2 mt-2">
-                        {/* Edit button for draft and pending posts */}
-                        {(post.status === 'draft' || post.status === 'pending') && (
+                        {/* History is visible to every signed-in user */}
+                        {user && (
+                          <button
+                            onClick={() => openHistory(post._id)}
+                            className="flex items-center gap-1 text-sm bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 px-2 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                          >
+                            <History className="w-4 h-4" />
+                            History
+                          </button>
+                        )}
+                        {/* Review buttons for approvers */}
+                        {canReview(post) && (
+                          <>
+                            <button
+                              onClick={() => openReview(post._id, 'approve')}
+                              className="flex items-center gap-1 text-sm bg-teal-100 dark:bg-teal-900 text-teal-700 dark:text-teal-300 px-2 py-1 rounded hover:bg-teal-200 dark:hover:bg-teal-800 transition-colors"
+                            >
+                              <ThumbsUp className="w-4 h-4" />
+                              Approve
+                            </button>
+                            <button
+                              onClick={() => openReview(post._id, 'request_changes')}
+                              className="flex items-center gap-1 text-sm bg-orange-100 dark:bg-orange-900 text-orange-700 dark:text-orange-300 px-2 py-1 rounded hover:bg-orange-200 dark:hover:bg-orange-800 transition-colors"
+                            >
+                              <MessageSquare className="w-4 h-4" />
+                              Request changes
+                            </button>
+                          </>
+                        )}
+                        {/* Edit button for posts that haven't been published, or failed and can be corrected */}
+                        {canModify && (isUnpublished || post.status === 'failed' || post.status === 'partial_success') && (
                           <button
                             onClick={() => handleEdit(post._id)}
                             className="flex items-center gap-1 text-sm bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 px-2 py-1 rounded hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors"
@@ -387,8 +632,8 @@ export default function Dashboard() {
                             Edit
                           </button>
                         )}
-                        {/* Delete button for draft, pending, and posted posts */}
-                        {(post.status === 'draft' || post.status === 'pending' || post.status === 'posted') && (
+                        {/* Delete button for unpublished and posted posts */}
+                        {canModify && (isUnpublished || post.status === 'posted') && (
                           <button
                             onClick={() => handleDelete(post._id)}
                             className="flex items-center gap-1 text-sm bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300 px-2 py-1 rounded hover:bg-red-200 dark:hover:bg-red-800 transition-colors"
@@ -435,6 +680,65 @@ export default function Dashboard() {
             )}
           </ModalContent>
         </Modal>
+
+        {/* Review Modal */}
+        <Modal isOpen={isReviewOpen} onOpenChange={onReviewOpenChange}>
+          <ModalContent>
+            {(onClose) => (
+              <>
+                <ModalHeader className="flex flex-col gap-1">{reviewTarget?.action === 'approve' ? 'Approve Post' : 'Request Changes'}</ModalHeader>
+                <ModalBody>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {reviewTarget?.action === 'approve'
+                      ? 'The post will be published at its scheduled time. You can add an optional comment.'
+                      : 'The post goes back to its author. Say what needs to change.'}
+                  </p>
+                  <textarea
+                    value={reviewComment}
+                    onChange={(e) => setReviewComment(e.target.value)}
+                    rows={4}
+                    placeholder="Comment"
+                    className="w-full p-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm"
+                  />
+                </ModalBody>
+                <ModalFooter>
+                  <Button color="default" variant="light" onPress={onClose}>
+                    Cancel
+                  </Button>
+                  <Button
+                    color={reviewTarget?.action === 'approve' ? 'success' : 'warning'}
+                    isDisabled={reviewTarget?.action === 'request_changes' && !reviewComment.trim()}
+                    onPress={() => {
+                      confirmReview();
+                      onClose();
+                    }}
+                  >
+                    {reviewTarget?.action === 'approve' ? 'Approve' : 'Request changes'}
+                  </Button>
+                </ModalFooter>
+              </>
+            )}
+          </ModalContent>
+        </Modal>
+
+        {/* History Modal */}
+        <Modal isOpen={isHistoryOpen} onOpenChange={onHistoryOpenChange} size="2xl" scrollBehavior="inside">
+          <ModalContent>
+            {(onClose) => (
+              <>
+                <ModalHeader className="flex flex-col gap-1">Post History</ModalHeader>
+                <ModalBody>
+                  {historyPostId && <PostTimeline postId={historyPostId} />}
+                </ModalBody>
+                <ModalFooter>
+                  <Button color="default" variant="light" onPress={onClose}>
+                    Close
+                  </Button>
+                </ModalFooter>
+              </>
+            )}
+          </ModalContent>
+        </Modal>
       </main>
     </div>
   );
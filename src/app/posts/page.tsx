@@ -2,21 +2,86 @@
 
 import { useState, useRef, useEffect, type FormEvent, type ChangeEvent } from 'react';
 import { Button, Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, useDisclosure } from '@heroui/react';
-import { Send, Plus, Trash2, ThumbsUp, MessageCircle, Share2, KeyRound, ArrowLeft, Image as ImageIcon, Video } from 'lucide-react';
+import { Send, ListOrdered, Plus, Trash2, ThumbsUp, MessageCircle, Share2, ArrowLeft, Image as ImageIcon, Video } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
+import { getEnabledPlatforms, getPlatformDefinition } from '@/lib/platforms';
+import { validatePost, hasBlockingIssues, mediaTypeFromMime, ValidationIssue } from '@/lib/postValidation';
+import PlatformChecks from '@/components/PlatformChecks';
+import LinkedInMentionPicker from '@/components/LinkedInMentionPicker';
+import UserMenu, { useCurrentUser } from '@/components/UserMenu';
+import RevisionHistory, { Revision } from '@/components/RevisionHistory';
+import { hasRole } from '@/lib/roles';
+import { fromLocalInputValue, getBrowserTimeZone, toLocalInputValue } from '@/lib/timezones';
+import TimeZoneSelect from '@/components/TimeZoneSelect';
+import { describeRecurrence, RECURRENCE_FREQUENCIES, RecurrenceFrequency, WEEKDAY_LABELS } from '@/lib/recurrence';
 
 // --- Post Interface ---
 interface Post {
   _id?: string;
   post_text: string;
-  scheduled_date: string; // Changed to string to match input[type=datetime-local]
+  // Wall-clock time in `timezone`, as an input[type=datetime-local] value
+  scheduled_date: string;
+  timezone: string;
   team?: string;
   platforms: string[];
-  post_media?: string[];
+  post_media?: MediaItem[];
+  // Alt text, titles, descriptions and crops being edited, keyed by preview URL
+  media_edits?: Record<string, MediaEdits>;
+  // Per-platform overrides; post_media holds preview URLs of the selected media
+  platform_variants?: Record<string, PlatformVariant>;
   mediaFiles?: File[];
   post_notes?: string;
-  status?: 'draft' | 'pending' | 'posted' | 'failed' | 'partial_success';
+  status?: 'draft' | 'in_review' | 'changes_requested' | 'approved' | 'pending' | 'processing' | 'posted' | 'failed' | 'partial_success';
+  review_history?: { action: 'submitted' | 'approved' | 'changes_requested'; user: { name: string }; comment?: string; created_at: string }[];
+  // Repeat settings being edited; missing when the post doesn't repeat
+  recurrence?: RecurrenceInput;
+  // Set when the post is one occurrence of a recurring series
+  series_id?: string;
+}
+
+// A recurrence rule as sent and received by the API
+interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  weekdays?: number[];
+  until?: string;
+  count?: number;
+}
+
+interface RecurrenceInput {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays: number[];
+  ends: 'never' | 'until' | 'count';
+  // Last day, as a date input value
+  until: string;
+  count: number;
+}
+
+interface MediaItem {
+  url: string;
+  type: 'image' | 'video';
+  mime_type?: string;
+  size?: number;
+  duration?: number;
+  alt_text?: string;
+  title?: string;
+  description?: string;
+  crops?: Record<string, { aspect_ratio: string; url: string }>;
+}
+
+interface MediaEdits {
+  alt_text?: string;
+  title?: string;
+  description?: string;
+  // Platform key -> aspect ratio
+  crops?: Record<string, string>;
+}
+
+interface PlatformVariant {
+  post_text?: string;
+  post_media?: string[];
 }
 
 // --- Interface for tracking deleted media ---
@@ -25,6 +90,51 @@ interface DeletedMedia {
   index: number; // Index in the original post_media array
 }
 
+// The composer's editable media details, taken from saved media items
+function toMediaEdits(media: MediaItem[]): Record<string, MediaEdits> {
+  return Object.fromEntries(media.map(item => [item.url, {
+    alt_text: item.alt_text,
+    title: item.title,
+    description: item.description,
+    crops: Object.fromEntries(Object.entries(item.crops ?? {}).map(([platformKey, crop]) => [platformKey, crop.aspect_ratio])),
+  }]));
+}
+
+// An empty post scheduled an hour from now
+function createEmptyPost(timeZone: string): Post {
+  return {
+    post_text: '',
+    scheduled_date: toLocalInputValue(new Date(Date.now() + 60 * 60 * 1000), timeZone),
+    timezone: timeZone,
+    platforms: [],
+    mediaFiles: [],
+  };
+}
+
+// Dates of the rule are read and written in the post's zone
+function toRecurrenceInput(timeZone: string, rule?: RecurrenceRule): RecurrenceInput | undefined {
+  if (!rule) return undefined;
+  return {
+    frequency: rule.frequency,
+    interval: rule.interval ?? 1,
+    weekdays: rule.weekdays ?? [],
+    ends: rule.until ? 'until' : rule.count ? 'count' : 'never',
+    until: rule.until ? toLocalInputValue(new Date(rule.until), timeZone).slice(0, 10) : '',
+    count: rule.count ?? 10,
+  };
+}
+
+// The rule to save. Schedules run until the end of the last day.
+function toRecurrenceRule(input: RecurrenceInput, timeZone: string): RecurrenceRule {
+  return {
+    frequency: input.frequency,
+    interval: input.interval,
+    ...(input.frequency === 'weekly' && input.weekdays.length > 0 && { weekdays: input.weekdays }),
+    ...(input.ends === 'until' && input.until && { until: fromLocalInputValue(`${input.until}T23:59:59`, timeZone).toISOString() }),
+    ...(input.ends === 'count' && { count: input.count }),
+  };
+}
+
 // --- FormattedPostText Helper Component ---
 interface FormattedPostTextProps {
   text: string;
@@ -34,11 +144,15 @@ const FormattedPostText: React.FC<FormattedPostTextProps> = ({ text }) => {
   if (!text) {
     return <span className="text-gray-400 dark:text-gray-500">Your post content will appear here...</span>;
   }
-  const regex = /(https?:\/\/[^\s]+|#\w+|@\w+)/g;
+  const regex = /(https?:\/\/[^\s]+|@\[[^\]]+\]\(urn:li:[^)]+\)|#\w+|@\w+)/g;
   const parts = text.split(regex);
   return (
     <>
       {parts.map((part, index) => {
+        const mention = part.match(/^@\[([^\]]+)\]\((urn:li:[^)]+)\)$/);
+        if (mention) {
+          return <span key={index} title={mention[2]} className="text-blue-500 font-semibold">{mention[1]}</span>;
+        }
         if (part.match(/^https?:\/\//)) {
           return <a key={index} href={part} target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline" onClick={(e) => e.stopPropagation()}>{part}</a>;
         }
@@ -53,31 +167,29 @@ const FormattedPostText: React.FC<FormattedPostTextProps> = ({ text }) => {
 
 // --- Main Component for Creating Posts (New UI) ---
 export default function PostManager() {
-  const [post, setPost] = useState<Post>({
-    post_text: '',
-    scheduled_date: new Date(Date.now() + 60 * 60 * 1000).toISOString().slice(0, 16), // Default to 1 hour from now
-    platforms: [],
-    mediaFiles: [],
-  });
+  const [post, setPost] = useState<Post>(() => createEmptyPost(getBrowserTimeZone()));
   const [editingPostId, setEditingPostId] = useState<string | null>(null);
+  // Zone new posts start in: the team's (see /api/teams), until loaded the browser's
+  const [defaultTimeZone, setDefaultTimeZone] = useState(getBrowserTimeZone);
 
-  const [secretKey, setSecretKey] = useState('');
+  const { user, loading: sessionLoading } = useCurrentUser();
+  const canWrite = hasRole(user?.role, 'author');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSavingDraft, setIsSavingDraft] = useState(false);
   const [submitMessage, setSubmitMessage] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
   const { isOpen, onOpen, onOpenChange } = useDisclosure();
   const [previewUrls, setPreviewUrls] = useState<string[]>([]);
   const [deletedMedia, setDeletedMedia] = useState<DeletedMedia[]>([]);
+  // Revision restored into the draft; sent on save so the server uses its media
+  const [restoredRevisionId, setRestoredRevisionId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // 'main' or the key of the platform whose variant is being edited
+  const [activeTab, setActiveTab] = useState('main');
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
 
-  const platformOptions = [
-    { key: 'linkedin', label: 'LinkedIn' },
-    { key: 'facebook', label: 'Facebook' },
-    { key: 'instagram', label: 'Instagram' },
-    // { key: 'twitter', label: 'Twitter' },
-  ];
+  const platformOptions = getEnabledPlatforms();
 
   const handlePlatformToggle = (platformKey: string) => {
     setPost(prev => {
@@ -86,8 +198,64 @@ export default function PostManager() {
         : [...prev.platforms, platformKey];
       return { ...prev, platforms };
     });
+    if (activeTab === platformKey) setActiveTab('main');
+  };
+
+  const activeVariant = activeTab === 'main' ? undefined : post.platform_variants?.[activeTab];
+
+  // Creates, changes or (with undefined) removes the variant of one platform
+  const updateVariant = (platformKey: string, changes: Partial<PlatformVariant>) => {
+    setPost(prev => {
+      const variant = { ...prev.platform_variants?.[platformKey], ...changes };
+      for (const key of Object.keys(variant) as (keyof PlatformVariant)[]) {
+        if (variant[key] === undefined) delete variant[key];
+      }
+
+      const variants = { ...prev.platform_variants };
+      if (Object.keys(variant).length > 0) variants[platformKey] = variant;
+      else delete variants[platformKey];
+      return { ...prev, platform_variants: variants };
+    });
+  };
+
+  const updateMediaEdits = (url: string, changes: Partial<MediaEdits>) => {
+    setPost(prev => ({
+      ...prev,
+      media_edits: { ...prev.media_edits, [url]: { ...prev.media_edits?.[url], ...changes } },
+    }));
+  };
+
+  // An empty aspect ratio goes back to the original framing
+  const updateCrop = (url: string, platformKey: string, aspectRatio: string) => {
+    const crops = { ...post.media_edits?.[url]?.crops };
+    if (aspectRatio) crops[platformKey] = aspectRatio;
+    else delete crops[platformKey];
+    updateMediaEdits(url, { crops });
+  };
+
+  const toggleVariantMedia = (platformKey: string, url: string) => {
+    const selected = post.platform_variants?.[platformKey]?.post_media ?? previewUrls;
+    updateVariant(platformKey, {
+      post_media: selected.includes(url) ? selected.filter(u => u !== url) : previewUrls.filter(u => u === url || selected.includes(u)),
+    });
   };
   
+  // Inserts a mention token at the cursor of the text being edited
+  const insertMention = (token: string) => {
+    const textarea = textareaRef.current;
+    const insert = (text: string) => {
+      const start = textarea?.selectionStart ?? text.length;
+      const end = textarea?.selectionEnd ?? text.length;
+      return text.slice(0, start) + token + text.slice(end);
+    };
+
+    if (activeVariant?.post_text !== undefined) {
+      updateVariant(activeTab, { post_text: insert(activeVariant.post_text) });
+    } else {
+      setPost(prev => ({ ...prev, post_text: insert(prev.post_text) }));
+    }
+  };
+
   const handleMediaUpload = (e: ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
@@ -103,7 +271,7 @@ export default function PostManager() {
     const mediaUrl = previewUrls[indexToRemove];
     
     // Find if this URL exists in the original post_media array
-    const originalMediaIndex = post.post_media?.indexOf(mediaUrl);
+    const originalMediaIndex = post.post_media?.findIndex(item => item.url === mediaUrl);
     
     if (originalMediaIndex !== undefined && originalMediaIndex >= 0) {
       // This is an existing media, mark it for deletion
@@ -126,6 +294,20 @@ export default function PostManager() {
       setEditingPostId(editPostId);
       fetchPostData(editPostId);
     }
+
+    // New posts move to the default zone, keeping the moment they're scheduled for
+    fetch('/api/teams')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`Failed to load team settings: ${response.status}`)))
+      .then(data => {
+        const timeZone: string = data.defaults.timezone;
+        setDefaultTimeZone(timeZone);
+        setPost(prev => prev._id ? prev : {
+          ...prev,
+          scheduled_date: prev.scheduled_date && toLocalInputValue(fromLocalInputValue(prev.scheduled_date, prev.timezone), timeZone),
+          timezone: timeZone,
+        });
+      })
+      .catch(err => console.error('Error loading team settings:', err));
   }, []);
 
   const fetchPostData = async (postId: string) => {
@@ -137,12 +319,18 @@ export default function PostManager() {
       if (response.ok) {
         const postToEdit = data.posts.find((p: Post) => p._id === postId);
         if (postToEdit) {
-          if (postToEdit.post_media && postToEdit.post_media.length > 0) {
-            setPreviewUrls(postToEdit.post_media);
+          const media: MediaItem[] = postToEdit.post_media ?? [];
+          if (media.length > 0) {
+            setPreviewUrls(media.map(item => item.url));
           }
+          // Posts from before time zones were scheduled in the browser's zone
+          const timeZone: string = postToEdit.timezone ?? getBrowserTimeZone();
           setPost({
             ...postToEdit,
-            scheduled_date: new Date(postToEdit.scheduled_date).toISOString().slice(0, 16),
+            scheduled_date: toLocalInputValue(new Date(postToEdit.scheduled_date), timeZone),
+            timezone: timeZone,
+            media_edits: toMediaEdits(media),
+            recurrence: toRecurrenceInput(timeZone, postToEdit.recurrence),
           });
           // Reset deleted media state when loading a post for editing
           setDeletedMedia([]);
@@ -160,12 +348,107 @@ export default function PostManager() {
     }
   };
 
-  const handleSubmit = async (e: FormEvent, isDraft: boolean = false) => {
+  // Replaces the draft's text, media, platforms and schedule with an older revision.
+  // Media whose file has been deleted since can't come back and is left out.
+  const restoreRevision = (revision: Revision) => {
+    const media = revision.post_media.filter(item => !item.deleted);
+    const mediaUrls = media.map(item => item.url);
+    setPreviewUrls(mediaUrls);
+    setDeletedMedia([]);
+    const timeZone = revision.timezone ?? post.timezone;
+    setPost(prev => ({
+      ...prev,
+      post_text: revision.post_text,
+      platforms: revision.platforms,
+      scheduled_date: toLocalInputValue(new Date(revision.scheduled_date), timeZone),
+      timezone: timeZone,
+      recurrence: toRecurrenceInput(timeZone, revision.recurrence),
+      post_media: media,
+      mediaFiles: [],
+      media_edits: toMediaEdits(media),
+      platform_variants: Object.fromEntries(Object.entries(revision.platform_variants ?? {}).map(([platformKey, variant]) => [platformKey, {
+        post_text: variant.post_text,
+        post_media: variant.post_media?.filter(url => mediaUrls.includes(url)),
+      }])),
+    }));
+    setRestoredRevisionId(revision._id);
+    setActiveTab('main');
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    setSubmitMessage({ type: 'success', message: `Revision #${revision.revision} restored into the draft. Save to keep it.` });
+  };
+
+  // Changes the repeat settings; a frequency of '' stops repeating
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | '') => {
+    setPost(prev => ({
+      ...prev,
+      recurrence: frequency
+        ? { ...(prev.recurrence ?? { interval: 1, weekdays: [], ends: 'never', until: '', count: 10 }), frequency }
+        : undefined,
+    }));
+  };
+
+  const updateRecurrence = (changes: Partial<RecurrenceInput>) => {
+    setPost(prev => prev.recurrence ? { ...prev, recurrence: { ...prev.recurrence, ...changes } } : prev);
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    const weekdays = post.recurrence?.weekdays ?? [];
+    updateRecurrence({
+      weekdays: weekdays.includes(weekday)
+        ? weekdays.filter(day => day !== weekday)
+        : [...weekdays, weekday].sort((a, b) => a - b),
+    });
+  };
+
+  // Media as it will be after saving: existing media minus removed items, plus new uploads
+  const validationContent = {
+    text: post.post_text,
+    media: [
+      ...(post.post_media ?? [])
+        .filter((_, index) => !deletedMedia.some(deleted => deleted.index === index)),
+      // The server inspects the real type, size and duration; this is the browser's view
+      ...(post.mediaFiles ?? []).map(file => ({ type: mediaTypeFromMime(file.type), mime_type: file.type || undefined, size: file.size })),
+    ],
+  };
+
+  // Variant content for validation; media types follow the preview order
+  const validationVariants = Object.fromEntries(
+    Object.entries(post.platform_variants ?? {}).map(([platformKey, variant]) => [platformKey, {
+      text: variant.post_text,
+      media: variant.post_media
+        ?.map(url => previewUrls.indexOf(url))
+        .filter(index => index >= 0)
+        .map(index => validationContent.media[index]),
+    }])
+  );
+
+  // Variants as the API expects them, with media as indexes into the final media list
+  const submittedVariants = () => Object.fromEntries(
+    Object.entries(post.platform_variants ?? {})
+      .filter(([platformKey]) => post.platforms.includes(platformKey))
+      .map(([platformKey, variant]) => [platformKey, {
+        post_text: variant.post_text,
+        media_indexes: variant.post_media?.map(url => previewUrls.indexOf(url)).filter(index => index >= 0),
+      }])
+  );
+
+  // Alt text, titles, descriptions and crops in the order of the final media list
+  const submittedMediaItems = () => previewUrls.map(url => post.media_edits?.[url] ?? null);
+
+  // Crop of the first media item on the platform tab being edited, shown in the preview
+  const previewCrop = activeTab === 'main' ? undefined : post.media_edits?.[previewUrls[0]]?.crops?.[activeTab];
+
+  const latestReview = post.review_history?.[post.review_history.length - 1];
+
+  const describeIssues = (issues: ValidationIssue[]) =>
+    issues.filter(issue => issue.severity === 'error').map(issue => issue.message).join(' ');
+
+  // addToQueue submits for review in the next free slot of the team's queue instead of the picked date
+  const handleSubmit = async (e: FormEvent, isDraft: boolean = false, addToQueue: boolean = false) => {
     e.preventDefault();
     
-    // For editing existing posts, always require secret key
-    if ((editingPostId || !isDraft) && !secretKey) {
-      setSubmitMessage({ type: 'error', message: 'Secret key is required.' });
+    if (!canWrite) {
+      setSubmitMessage({ type: 'error', message: 'Sign in as an author to create or edit posts.' });
       return;
     }
     
@@ -173,6 +456,13 @@ export default function PostManager() {
       setSubmitMessage({ type: 'error', message: 'Please select at least one platform.' });
       return;
     }
+
+    // Drafts may be incomplete; scheduled posts must meet every platform's rules
+    const issues = validatePost({ ...validationContent, platforms: post.platforms, variants: validationVariants });
+    if (!isDraft && hasBlockingIssues(issues)) {
+      setSubmitMessage({ type: 'error', message: describeIssues(issues) });
+      return;
+    }
     
     if (isDraft) {
       setIsSavingDraft(true);
@@ -186,15 +476,20 @@ export default function PostManager() {
         // Update existing post with FormData to handle media files
         const formData = new FormData();
         formData.append('id', editingPostId);
-        formData.append('secretKey', secretKey);
         formData.append('isDraft', isDraft.toString());
         formData.append('postData', JSON.stringify({
           post_text: post.post_text,
-          scheduled_date: new Date(post.scheduled_date).toISOString(),
+          scheduled_date: addToQueue ? undefined : fromLocalInputValue(post.scheduled_date, post.timezone).toISOString(),
+          timezone: post.timezone,
           platforms: post.platforms,
+          platform_variants: submittedVariants(),
+          media_items: submittedMediaItems(),
           post_notes: post.post_notes,
           team: post.team,
-          status: isDraft ? 'draft' : 'pending',
+          status: isDraft ? 'draft' : 'in_review',
+          ...(addToQueue && { queue: true }),
+          // Occurrences follow their series and can't repeat themselves
+          ...(!post.series_id && { recurrence: post.recurrence ? toRecurrenceRule(post.recurrence, post.timezone) : null }),
         }));
 
         // Handle media files for editing
@@ -211,6 +506,9 @@ export default function PostManager() {
         if (deletedMedia.length > 0) {
           formData.append('deletedMedia', JSON.stringify(deletedMedia));
         }
+        if (restoredRevisionId) {
+          formData.append('restoreRevision', restoredRevisionId);
+        }
 
         const response = await fetch('/api/posts', {
           method: 'PUT',
@@ -220,29 +518,34 @@ export default function PostManager() {
         const data = await response.json();
         
         if (response.ok) {
-          setSubmitMessage({ type: 'success', message: `Post ${isDraft ? 'draft ' : ''}updated successfully!` });
+          setSubmitMessage({ type: 'success', message: isDraft ? 'Post draft updated successfully!' : addToQueue ? 'Post queued and submitted for review!' : 'Post updated and submitted for review!' });
           // Reset form after successful update
-          setPost({ post_text: '', scheduled_date: new Date(Date.now() + 60 * 60 * 1000).toISOString().slice(0, 16), platforms: [], mediaFiles: [] });
+          setPost(createEmptyPost(defaultTimeZone));
           setPreviewUrls([]);
           setDeletedMedia([]); // Reset deleted media state
+          setRestoredRevisionId(null);
           setEditingPostId(null);
           if (fileInputRef.current) fileInputRef.current.value = '';
           // Remove edit parameter from URL
           router.push('/posts');
         } else {
-          setSubmitMessage({ type: 'error', message: data.error || `Failed to update post` });
+          setSubmitMessage({ type: 'error', message: data.issues ? `${data.error} ${describeIssues(data.issues)}` : data.error || `Failed to update post` });
         }
       } else {
         // Create new post
         const formData = new FormData();
-        formData.append('secretKey', secretKey);
         formData.append('isDraft', isDraft.toString());
         formData.append('postData', JSON.stringify({
           post_text: post.post_text,
-          scheduled_date: new Date(post.scheduled_date).toISOString(),
+          scheduled_date: addToQueue ? undefined : fromLocalInputValue(post.scheduled_date, post.timezone).toISOString(),
+          timezone: post.timezone,
           platforms: post.platforms,
+          platform_variants: submittedVariants(),
+          media_items: submittedMediaItems(),
           post_notes: post.post_notes,
           team: post.team,
+          recurrence: post.recurrence ? toRecurrenceRule(post.recurrence, post.timezone) : null,
+          ...(addToQueue && { queue: true }),
         }));
 
         if (post.mediaFiles) {
@@ -256,21 +559,16 @@ export default function PostManager() {
           if (isDraft) {
             setSubmitMessage({ type: 'success', message: 'Draft saved successfully!' });
           } else {
-            setSubmitMessage({ type: 'success', message: 'Post scheduled successfully!' });
+            setSubmitMessage({ type: 'success', message: addToQueue ? 'Post queued and submitted for review!' : 'Post submitted for review!' });
             onOpen();
           }
           // Always reset form after successful submission (both for drafts and scheduled posts)
-          setPost({
-            post_text: '',
-            scheduled_date: new Date(Date.now() + 60 * 60 * 1000).toISOString().slice(0, 16),
-            platforms: [],
-            mediaFiles: []
-          });
+          setPost(createEmptyPost(defaultTimeZone));
           setPreviewUrls([]);
           setDeletedMedia([]); // Reset deleted media state
           if (fileInputRef.current) fileInputRef.current.value = '';
         } else {
-          setSubmitMessage({ type: 'error', message: data.error || `Failed to ${isDraft ? 'save draft' : 'schedule post'}` });
+          setSubmitMessage({ type: 'error', message: data.issues ? `${data.error} ${describeIssues(data.issues)}` : data.error || `Failed to ${isDraft ? 'save draft' : 'submit post'}` });
         }
       }
     } catch (error) {
@@ -297,28 +595,96 @@ export default function PostManager() {
               {editingPostId ? 'Edit your draft or scheduled post' : 'Compose and schedule your content across platforms.'}
             </p>
           </div>
-          <Button variant='ghost' onPress={() => router.push('/')} className="flex items-center gap-2 mt-4 md:mt-0 text-sm font-semibold text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 transition-colors">
-            <ArrowLeft className="h-4 w-4" />
-            Back to Dashboard
-          </Button>
+          <div className="flex items-center gap-4 mt-4 md:mt-0">
+            <UserMenu user={user} loading={sessionLoading} />
+            <Button variant='ghost' onPress={() => router.push('/')} className="flex items-center gap-2 text-sm font-semibold text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 transition-colors">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Dashboard
+            </Button>
+          </div>
         </header>
 
         <form onSubmit={handleSubmit} className="grid grid-cols-1 lg:grid-cols-5 gap-8 items-start">
           {/* Left Column: Form */}
           <div className="lg:col-span-3 bg-white dark:bg-gray-900/70 border border-gray-200 dark:border-gray-800 rounded-xl shadow-sm p-6 space-y-6">
-            <textarea
-              value={post.post_text}
-              onChange={(e) => setPost({ ...post, post_text: e.target.value })}
-              placeholder="What's on your mind?"
-              className="w-full p-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition min-h-[150px]"
-              required
-            />
+            {post.status === 'changes_requested' && latestReview?.action === 'changes_requested' && (
+              <div className="p-3 rounded-lg border border-orange-200 dark:border-orange-800 bg-orange-50 dark:bg-orange-950 text-sm text-orange-700 dark:text-orange-300">
+                <span className="font-semibold">{latestReview.user.name} requested changes:</span> {latestReview.comment}
+              </div>
+            )}
+            {post.platforms.length > 0 && (
+              <div className="flex flex-wrap gap-1 border-b border-gray-200 dark:border-gray-700">
+                {['main', ...post.platforms].map(tab => (
+                  <button
+                    key={tab}
+                    type="button"
+                    onClick={() => setActiveTab(tab)}
+                    className={`px-3 py-1.5 text-sm font-semibold border-b-2 -mb-px transition-colors ${activeTab === tab ? 'border-blue-600 text-blue-600 dark:text-blue-400' : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+                  >
+                    {tab === 'main' ? 'Main' : getPlatformDefinition(tab)?.label ?? tab}
+                    {tab !== 'main' && post.platform_variants?.[tab] && <span className="ml-1 text-xs">•</span>}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {activeTab !== 'main' && (
+              <div className="space-y-2 text-sm text-gray-700 dark:text-gray-300">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={activeVariant?.post_text === undefined}
+                    onChange={(e) => updateVariant(activeTab, { post_text: e.target.checked ? undefined : post.post_text })}
+                  />
+                  Inherit from main text
+                </label>
+                {previewUrls.length > 0 && (
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={activeVariant?.post_media === undefined}
+                      onChange={(e) => updateVariant(activeTab, { post_media: e.target.checked ? undefined : previewUrls })}
+                    />
+                    Use all media
+                  </label>
+                )}
+              </div>
+            )}
+
+            {activeVariant?.post_text !== undefined ? (
+              <textarea
+                ref={textareaRef}
+                value={activeVariant.post_text}
+                onChange={(e) => updateVariant(activeTab, { post_text: e.target.value })}
+                placeholder={`Text for ${getPlatformDefinition(activeTab)?.label ?? activeTab}`}
+                className="w-full p-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition min-h-[150px]"
+              />
+            ) : (
+              <textarea
+                ref={textareaRef}
+                value={post.post_text}
+                onChange={(e) => setPost({ ...post, post_text: e.target.value })}
+                placeholder="What's on your mind?"
+                disabled={activeTab !== 'main'}
+                className="w-full p-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition min-h-[150px] disabled:opacity-60"
+                required
+              />
+            )}
 
             {previewUrls.length > 0 && (
               <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3">
                 {previewUrls.map((url, index) => (
                   <div key={url} className="relative group aspect-square">
-                    <Image src={url} alt={`Preview ${index + 1}`} width={100} height={100} className="w-full h-full object-cover rounded-md" />
+                    <Image src={url} alt={`Preview ${index + 1}`} width={100} height={100} className={`w-full h-full object-cover rounded-md ${activeVariant?.post_media && !activeVariant.post_media.includes(url) ? 'opacity-30' : ''}`} />
+                    {activeVariant?.post_media && (
+                      <input
+                        type="checkbox"
+                        title="Include on this platform"
+                        checked={activeVariant.post_media.includes(url)}
+                        onChange={() => toggleVariantMedia(activeTab, url)}
+                        className="absolute top-1 left-1 z-10"
+                      />
+                    )}
                     <button type="button" onClick={() => removeMedia(index)} className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 opacity-80 group-hover:opacity-100 transition-opacity z-10">
                       <Trash2 className="w-3 h-3" />
                     </button>
@@ -327,6 +693,65 @@ export default function PostManager() {
               </div>
             )}
 
+            {previewUrls.length > 0 && (
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Media details</label>
+                {previewUrls.map((url, index) => {
+                  const edits = post.media_edits?.[url];
+                  const croppablePlatforms = post.platforms.filter(platformKey => (getPlatformDefinition(platformKey)?.cropAspectRatios.length ?? 0) > 0);
+                  return (
+                    <div key={url} className="flex items-start gap-3">
+                      <Image src={url} alt={edits?.alt_text || `Media ${index + 1}`} width={48} height={48} className="w-12 h-12 object-cover rounded" />
+                      <div className="flex-1 space-y-2">
+                        <input
+                          value={edits?.alt_text ?? ''}
+                          onChange={(e) => updateMediaEdits(url, { alt_text: e.target.value })}
+                          placeholder="Alt text (describe the image for screen readers)"
+                          className="w-full p-1.5 text-sm bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md"
+                        />
+                        {post.platforms.includes('linkedin') && (
+                          <div className="flex gap-2">
+                            <input
+                              value={edits?.title ?? ''}
+                              onChange={(e) => updateMediaEdits(url, { title: e.target.value })}
+                              placeholder="LinkedIn title"
+                              className="flex-1 p-1.5 text-sm bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md"
+                            />
+                            <input
+                              value={edits?.description ?? ''}
+                              onChange={(e) => updateMediaEdits(url, { description: e.target.value })}
+                              placeholder="LinkedIn description"
+                              className="flex-[2] p-1.5 text-sm bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md"
+                            />
+                          </div>
+                        )}
+                        {croppablePlatforms.length > 0 && (
+                          <div className="flex flex-wrap gap-3 text-xs text-gray-600 dark:text-gray-400">
+                            {croppablePlatforms.map(platformKey => {
+                              const definition = getPlatformDefinition(platformKey);
+                              return (
+                                <label key={platformKey} className="flex items-center gap-1">
+                                  {definition?.label ?? platformKey}
+                                  <select
+                                    value={edits?.crops?.[platformKey] ?? ''}
+                                    onChange={(e) => updateCrop(url, platformKey, e.target.value)}
+                                    className="p-1 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md"
+                                  >
+                                    <option value="">Original</option>
+                                    {definition?.cropAspectRatios.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+                                  </select>
+                                </label>
+                              );
+                            })}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
             <div>
               <button type="button" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 text-sm font-semibold text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 transition-colors">
                 <ImageIcon className="w-4 h-4" /> Add Image or Video
@@ -343,6 +768,10 @@ export default function PostManager() {
                         </button>
                     ))}
                 </div>
+                <PlatformChecks platforms={post.platforms} content={validationContent} variants={validationVariants} />
+                {post.platforms.includes('linkedin') && (
+                  <LinkedInMentionPicker canSave={canWrite} onInsert={insertMention} />
+                )}
             </div>
 
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -356,43 +785,151 @@ export default function PostManager() {
                   className="w-full p-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
                   required
                 />
+                {/* Changing the zone keeps the wall-clock time, e.g. 09:00 in the new zone */}
+                <label htmlFor="scheduleTimeZone" className="block text-xs font-medium text-gray-500 dark:text-gray-400 mt-2 mb-1">Time zone</label>
+                <TimeZoneSelect
+                  id="scheduleTimeZone"
+                  value={post.timezone}
+                  onChange={(timeZone) => setPost({ ...post, timezone: timeZone })}
+                  className="w-full text-sm p-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                />
+                {post.scheduled_date && post.timezone !== getBrowserTimeZone() && (
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {fromLocalInputValue(post.scheduled_date, post.timezone).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', timeZoneName: 'short' })} your time
+                  </p>
+                )}
               </div>
               <div>
-                <label htmlFor="secretKey" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Secret Key</label>
-                <div className="relative">
-                  <KeyRound className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <label htmlFor="repeatFrequency" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Repeat</label>
+                {post.series_id ? (
+                  <p className="p-2 text-sm text-gray-500 dark:text-gray-400">One occurrence of a recurring post. Changes apply to this occurrence only.</p>
+                ) : (
+                  <select
+                    id="repeatFrequency"
+                    value={post.recurrence?.frequency ?? ''}
+                    onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceFrequency | '')}
+                    className="w-full p-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                  >
+                    <option value="">Does not repeat</option>
+                    {RECURRENCE_FREQUENCIES.map(frequency => (
+                      <option key={frequency} value={frequency} className="capitalize">{frequency}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </div>
+
+            {post.recurrence && !post.series_id && (
+              <div className="space-y-3 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <label htmlFor="repeatInterval">Every</label>
                   <input
-                    id="secretKey"
-                    type="password"
-                    value={secretKey}
-                    onChange={(e) => setSecretKey(e.target.value)}
-                    placeholder="Enter your secret key"
-                    className="w-full pl-9 p-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
-                    required
+                    id="repeatInterval"
+                    type="number"
+                    min={1}
+                    value={post.recurrence.interval}
+                    onChange={(e) => updateRecurrence({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className="w-20 p-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
                   />
+                  <span>{{ daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)' }[post.recurrence.frequency]}</span>
                 </div>
+                {post.recurrence.frequency === 'weekly' && (
+                  <div className="flex flex-wrap items-center gap-1">
+                    {WEEKDAY_LABELS.map((label, weekday) => (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => toggleWeekday(weekday)}
+                        className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+                          post.recurrence?.weekdays.includes(weekday)
+                            ? 'bg-blue-600 text-white border-blue-600'
+                            : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700 hover:bg-gray-200 dark:hover:bg-gray-700'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    {post.recurrence.weekdays.length === 0 && (
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">Same weekday as the schedule date</span>
+                    )}
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <label htmlFor="repeatEnds">Ends</label>
+                  <select
+                    id="repeatEnds"
+                    value={post.recurrence.ends}
+                    onChange={(e) => updateRecurrence({ ends: e.target.value as RecurrenceInput['ends'] })}
+                    className="p-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                  >
+                    <option value="never">Never</option>
+                    <option value="until">On date</option>
+                    <option value="count">After</option>
+                  </select>
+                  {post.recurrence.ends === 'until' && (
+                    <input
+                      type="date"
+                      aria-label="Last day"
+                      value={post.recurrence.until}
+                      onChange={(e) => updateRecurrence({ until: e.target.value })}
+                      className="p-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                      required
+                    />
+                  )}
+                  {post.recurrence.ends === 'count' && (
+                    <>
+                      <input
+                        type="number"
+                        min={1}
+                        aria-label="Number of occurrences"
+                        value={post.recurrence.count}
+                        onChange={(e) => updateRecurrence({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                        className="w-20 p-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                      />
+                      <span>occurrences</span>
+                    </>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {describeRecurrence(toRecurrenceRule(post.recurrence, post.timezone))}, starting on the schedule date. Each occurrence can be edited or skipped from the dashboard.
+                </p>
               </div>
-            </div>
+            )}
             
             <div className="flex flex-wrap space-y-4 items-center justify-between pt-4 space-x-2 border-t border-gray-200 dark:border-gray-700">
               <div className="flex gap-2">
                 <button
                   type="button"
                   onClick={(e) => handleSubmit(e, true)}
-                  disabled={isSavingDraft}
+                  disabled={isSavingDraft || !canWrite}
                   className="flex items-center gap-2 bg-gray-600 text-white font-semibold px-5 py-2.5 rounded-lg hover:bg-gray-700 transition-colors shadow-sm disabled:bg-gray-400 disabled:cursor-not-allowed"
                 >
                   {isSavingDraft ? 'Saving...' : 'Save as Draft'}
                 </button>
                 <button
                   type="submit"
-                  disabled={isSubmitting || !secretKey}
+                  disabled={isSubmitting || !canWrite}
                   className="flex items-center gap-2 bg-blue-600 text-white font-semibold px-5 py-2.5 rounded-lg hover:bg-blue-700 transition-colors shadow-sm disabled:bg-gray-400 disabled:cursor-not-allowed"
                 >
-                  {isSubmitting ? 'Posting...' : 'Post'}
+                  {isSubmitting ? 'Submitting...' : 'Submit for Review'}
                   <Send className="w-4 h-4" />
                 </button>
+                {!post.recurrence && !post.series_id && (
+                  <button
+                    type="button"
+                    onClick={(e) => handleSubmit(e, false, true)}
+                    disabled={isSubmitting || !canWrite}
+                    title="Submit for review in the next free slot of the team's queue"
+                    className="flex items-center gap-2 bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400 border border-blue-600 dark:border-blue-400 font-semibold px-5 py-2.5 rounded-lg hover:bg-blue-50 dark:hover:bg-gray-700 transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Add to Queue
+                    <ListOrdered className="w-4 h-4" />
+                  </button>
+                )}
               </div>
+              {!sessionLoading && !canWrite && (
+                  <span className="text-sm text-gray-500 dark:text-gray-400">Sign in as an author to save posts.</span>
+              )}
               {submitMessage && (
                   <span className={`text-sm font-semibold ${submitMessage.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{submitMessage.message}</span>
               )}
@@ -412,12 +949,12 @@ export default function PostManager() {
               </div>
 
               <div className="mb-3 whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200 text-sm">
-                <FormattedPostText text={post.post_text} />
+                <FormattedPostText text={activeVariant?.post_text ?? post.post_text} />
               </div>
 
               {previewUrls.length > 0 && (
                 <div className="mt-3 rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700">
-                  {previewUrls.length === 1 && ( <Image src={previewUrls[0]} alt="Preview" width={500} height={300} className="w-full h-auto object-cover" /> )}
+                  {previewUrls.length === 1 && ( <Image src={previewUrls[0]} alt={post.media_edits?.[previewUrls[0]]?.alt_text || 'Preview'} width={500} height={300} className="w-full h-auto object-cover" style={previewCrop ? { aspectRatio: previewCrop.replace(':', ' / ') } : undefined} /> )}
                   {previewUrls.length > 1 && (
                     <div className={`grid gap-0.5 ${previewUrls.length === 2 ? 'grid-cols-2' : 'grid-cols-2'}`}>
                       {previewUrls.slice(0, 4).map((url, index) => (
@@ -441,6 +978,10 @@ export default function PostManager() {
                 <button type="button" className="flex items-center gap-2 hover:text-blue-500 transition-colors"><Share2 className="w-5 h-5" /><span>Share</span></button>
               </div>
             </div>
+
+            {editingPostId && (
+              <RevisionHistory postId={editingPostId} currentText={post.post_text} onRestore={restoreRevision} />
+            )}
           </div>
         </form>
       </main>
@@ -449,7 +990,7 @@ export default function PostManager() {
         <ModalContent>
           {(onClose) => (
             <>
-              <ModalHeader className="flex flex-col gap-1">Post Scheduled</ModalHeader>
+              <ModalHeader className="flex flex-col gap-1">Submitted for Review</ModalHeader>
               <ModalBody><p>{submitMessage?.message}</p></ModalBody>
               <ModalFooter><Button color="primary" onPress={onClose}>Got it</Button></ModalFooter>
             </>
@@ -0,0 +1,307 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowDown, ArrowLeft, ArrowUp, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Alert } from '@heroui/react';
+import { canModifyPost, hasRole } from '@/lib/roles';
+import { getEnabledPlatforms } from '@/lib/platforms';
+import { getBrowserTimeZone } from '@/lib/timezones';
+import { WEEKDAY_LABELS } from '@/lib/recurrence';
+import UserMenu, { useCurrentUser } from '@/components/UserMenu';
+
+interface QueueSlot {
+  weekdays: number[];
+  time: string;
+}
+
+interface QueuedPost {
+  _id: string;
+  post_text: string;
+  scheduled_date: string;
+  status: string;
+  platforms: string[];
+  created_by?: { user_id: string; name: string };
+}
+
+interface QueueData {
+  timezone: string;
+  queue: { platform: string; slots: QueueSlot[]; shuffle: boolean } | null;
+  posts: QueuedPost[];
+  free_slots: string[];
+}
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const inputClassName = 'p-2 text-sm bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition';
+
+// Posting queues of a team: the weekly slots "Add to queue" fills on each
+// platform (admins edit them) and the posts queued there, which can be reordered.
+export default function QueuePage() {
+  const router = useRouter();
+  const { user, loading: sessionLoading } = useCurrentUser();
+  const timeZone = user?.timezone ?? getBrowserTimeZone();
+  const isAdmin = hasRole(user?.role, 'admin');
+  const platforms = getEnabledPlatforms();
+  const [teams, setTeams] = useState<string[]>([]);
+  // Empty for posts without a team
+  const [team, setTeam] = useState('');
+  const [platform, setPlatform] = useState(platforms[0]?.key ?? '');
+  const [data, setData] = useState<QueueData | null>(null);
+  const [slots, setSlots] = useState<QueueSlot[]>([]);
+  const [shuffle, setShuffle] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Bumped to load the queue again after a change
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    fetch('/api/teams')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`Failed to load teams: ${response.status}`)))
+      .then(data => setTeams(data.teams.map((settings: { team: string }) => settings.team)))
+      .catch(err => console.error('Error loading teams:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!platform) return;
+    setLoading(true);
+    fetch(`/api/queue?platform=${encodeURIComponent(platform)}${team ? `&team=${encodeURIComponent(team)}` : ''}`)
+      .then(async response => {
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to fetch queue');
+        setData(result);
+        setSlots(result.queue?.slots ?? []);
+        setShuffle(result.queue?.shuffle ?? false);
+      })
+      .catch(err => {
+        console.error('Error fetching queue:', err);
+        setError('Failed to connect to the server. Please check your connection.');
+      })
+      .finally(() => setLoading(false));
+  }, [team, platform, reloadKey]);
+
+  const formatDateTime = (dateString: string) => new Date(dateString).toLocaleString('en-US', {
+    weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', timeZone, timeZoneName: 'short',
+  });
+
+  const updateSlot = (index: number, changes: Partial<QueueSlot>) =>
+    setSlots(prev => prev.map((slot, slotIndex) => slotIndex === index ? { ...slot, ...changes } : slot));
+
+  const toggleWeekday = (index: number, weekday: number) => {
+    const { weekdays } = slots[index];
+    updateSlot(index, {
+      weekdays: weekdays.includes(weekday) ? weekdays.filter(day => day !== weekday) : [...weekdays, weekday].sort((a, b) => a - b),
+    });
+  };
+
+  const handleSave = async () => {
+    if (slots.some(slot => slot.weekdays.length === 0 || !slot.time)) {
+      setError('Every slot needs at least one weekday and a time.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/queue', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ team: team || null, platform, slots, shuffle }),
+      });
+      const result = await response.json();
+      if (response.ok) {
+        setMessage('Queue saved.');
+        setReloadKey(key => key + 1);
+      } else {
+        setError(result.error || 'Failed to save queue');
+      }
+    } catch (err) {
+      console.error('Error saving queue:', err);
+      setError('A network error occurred. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Swaps a queued post with its neighbour; both keep the queue's slots
+  const move = async (index: number, direction: -1 | 1) => {
+    if (!data) return;
+    const order = data.posts.map(post => post._id);
+    [order[index], order[index + direction]] = [order[index + direction], order[index]];
+
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/queue/order', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ post_ids: order }),
+      });
+      const result = await response.json();
+      if (!response.ok) setError(result.error || 'Failed to reorder queue');
+    } catch (err) {
+      console.error('Error reordering queue:', err);
+      setError('A network error occurred. Please try again.');
+    } finally {
+      setReloadKey(key => key + 1);
+    }
+  };
+
+  const canMove = (index: number, direction: -1 | 1) => {
+    const neighbour = data?.posts[index + direction];
+    return !!neighbour && [data.posts[index], neighbour].every(post => canModifyPost(user, post.created_by?.user_id));
+  };
+
+  const tabClassName = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-sm font-semibold transition-colors ${active ? 'bg-blue-600 text-white' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-800'}`;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950 text-gray-900 dark:text-gray-100 font-sans">
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 md:py-12 space-y-6">
+        <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <h1 className="text-3xl md:text-4xl font-bold tracking-tight text-gray-900 dark:text-white">Queue</h1>
+          <div className="flex items-center gap-4">
+            <UserMenu user={user} loading={sessionLoading} />
+            <button onClick={() => router.push('/')} className="flex items-center gap-2 text-sm font-semibold text-blue-600 hover:text-blue-700 dark:text-blue-400">
+              <ArrowLeft className="h-4 w-4" /> Back to Dashboard
+            </button>
+          </div>
+        </header>
+
+        {error && <Alert color="danger" title="Error" description={error} />}
+        {message && <Alert color="success" title={message} />}
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex gap-1">
+            {platforms.map(definition => (
+              <button key={definition.key} onClick={() => setPlatform(definition.key)} className={tabClassName(platform === definition.key)}>
+                {definition.label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+            Team
+            <select value={team} onChange={(e) => setTeam(e.target.value)} className={inputClassName}>
+              <option value="">No team</option>
+              {teams.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <section className={`bg-white dark:bg-gray-900/70 border border-gray-200 dark:border-gray-800 rounded-xl shadow-sm p-6 space-y-4 ${loading ? 'opacity-60' : ''}`}>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Time slots</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Every week, in {data?.timezone.replace(/_/g, ' ') ?? 'the team’s time zone'}. &quot;Add to Queue&quot; in the composer takes the next free one.
+            </p>
+          </div>
+
+          {slots.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">No slots yet, so posts can’t be queued here.</p>}
+          {slots.map((slot, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-3">
+              <div className="flex gap-1">
+                {WEEKDAY_LABELS.map((label, weekday) => (
+                  <button
+                    key={label}
+                    type="button"
+                    disabled={!isAdmin}
+                    onClick={() => toggleWeekday(index, weekday)}
+                    className={`w-10 py-1 rounded-md text-xs font-semibold border transition-colors disabled:cursor-default ${
+                      slot.weekdays.includes(weekday)
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <input
+                type="time"
+                value={slot.time}
+                disabled={!isAdmin}
+                onChange={(e) => updateSlot(index, { time: e.target.value })}
+                className={inputClassName}
+              />
+              {isAdmin && (
+                <button onClick={() => setSlots(prev => prev.filter((_, slotIndex) => slotIndex !== index))} title="Remove slot" className="p-1.5 rounded-full text-gray-500 hover:text-red-600 hover:bg-gray-200 dark:hover:bg-gray-800">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+
+          {isAdmin && (
+            <div className="flex flex-wrap items-center justify-between gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <div className="flex flex-wrap items-center gap-4">
+                <button onClick={() => setSlots(prev => [...prev, { weekdays: WEEKDAYS, time: '09:00' }])} className="flex items-center gap-1 text-sm font-semibold text-blue-600 hover:text-blue-700 dark:text-blue-400">
+                  <Plus className="h-4 w-4" /> Add slot
+                </button>
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input type="checkbox" checked={shuffle} onChange={(e) => setShuffle(e.target.checked)} />
+                  Move later posts up when a queued post is removed or rescheduled
+                </label>
+              </div>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="bg-blue-600 text-white text-sm font-semibold px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors shadow-sm disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Saving...' : 'Save Queue'}
+              </button>
+            </div>
+          )}
+        </section>
+
+        <section className={`bg-white dark:bg-gray-900/70 border border-gray-200 dark:border-gray-800 rounded-xl shadow-sm p-6 space-y-4 ${loading ? 'opacity-60' : ''}`}>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Queued posts</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Times in {timeZone.replace(/_/g, ' ')}. Moving a post swaps its slot with its neighbour’s.</p>
+          </div>
+
+          {data?.posts.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">Nothing queued.</p>}
+          <ol className="divide-y divide-gray-200 dark:divide-gray-800">
+            {data?.posts.map((post, index) => (
+              <li key={post._id} className="flex items-center gap-3 py-3">
+                <div className="flex flex-col">
+                  <button onClick={() => move(index, -1)} disabled={!canMove(index, -1)} title="Move up" className="p-1 rounded text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-800 disabled:opacity-30 disabled:hover:bg-transparent">
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button onClick={() => move(index, 1)} disabled={!canMove(index, 1)} title="Move down" className="p-1 rounded text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-800 disabled:opacity-30 disabled:hover:bg-transparent">
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="w-48 flex-shrink-0 text-sm font-semibold text-gray-700 dark:text-gray-200">{formatDateTime(post.scheduled_date)}</div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-800 dark:text-gray-200 truncate">{post.post_text}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {post.platforms.join(', ')} · {post.status.replace(/_/g, ' ')}{post.created_by && ` · by ${post.created_by.name}`}
+                  </p>
+                </div>
+                {canModifyPost(user, post.created_by?.user_id) && (
+                  <button onClick={() => router.push(`/posts?edit=${post._id}`)} title="Edit" className="p-1.5 rounded-full text-gray-500 hover:text-blue-600 hover:bg-gray-200 dark:hover:bg-gray-800">
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          {!!data?.free_slots.length && (
+            <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Next free slots</h3>
+              <ul className="flex flex-wrap gap-2 text-xs text-gray-600 dark:text-gray-400">
+                {data.free_slots.map(slot => (
+                  <li key={slot} className="px-2 py-1 rounded-md bg-gray-100 dark:bg-gray-800">{formatDateTime(slot)}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
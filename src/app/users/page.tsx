@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, UserPlus } from 'lucide-react';
+import { Alert } from '@heroui/react';
+import { hasRole, USER_ROLES, UserRole } from '@/lib/roles';
+import UserMenu, { useCurrentUser } from '@/components/UserMenu';
+
+interface UserAccount {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  disabled: boolean;
+  created_at: string;
+}
+
+// Admin page for adding accounts, changing roles and disabling accounts
+export default function UsersPage() {
+  const router = useRouter();
+  const { user: currentUser, loading: sessionLoading } = useCurrentUser();
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [newUser, setNewUser] = useState({ name: '', email: '', password: '', role: 'author' as UserRole });
+  const [isCreating, setIsCreating] = useState(false);
+
+  const isAdmin = hasRole(currentUser?.role, 'admin');
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch('/api/users');
+      const data = await response.json();
+      if (response.ok) setUsers(data.users);
+      else setError(data.error || 'Failed to fetch users');
+    } catch (err) {
+      console.error('Error fetching users:', err);
+      setError('Failed to connect to the server. Please check your connection.');
+    }
+  };
+
+  useEffect(() => {
+    if (isAdmin) fetchUsers();
+  }, [isAdmin]);
+
+  const updateUser = async (id: string, changes: Partial<Pick<UserAccount, 'role' | 'disabled'>>) => {
+    setError(null);
+    try {
+      const response = await fetch('/api/users', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, ...changes }),
+      });
+      const data = await response.json();
+      if (response.ok) setUsers(prev => prev.map(user => user.id === id ? data.user : user));
+      else setError(data.error || 'Failed to update user');
+    } catch (err) {
+      console.error('Error updating user:', err);
+      setError('Failed to update user. Please try again.');
+    }
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newUser),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setUsers(prev => [...prev, data.user].sort((a, b) => a.name.localeCompare(b.name)));
+        setNewUser({ name: '', email: '', password: '', role: 'author' });
+      } else {
+        setError(data.error || 'Failed to create user');
+      }
+    } catch (err) {
+      console.error('Error creating user:', err);
+      setError('Failed to create user. Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const inputClassName = 'p-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950 text-gray-900 dark:text-gray-100 font-sans">
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 md:py-12 space-y-6">
+        <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <h1 className="text-3xl md:text-4xl font-bold tracking-tight text-gray-900 dark:text-white">Users</h1>
+          <div className="flex items-center gap-4">
+            <UserMenu user={currentUser} loading={sessionLoading} />
+            <button onClick={() => router.push('/')} className="flex items-center gap-2 text-sm font-semibold text-blue-600 hover:text-blue-700 dark:text-blue-400">
+              <ArrowLeft className="h-4 w-4" /> Back to Dashboard
+            </button>
+          </div>
+        </header>
+
+        {error && <Alert color="danger" title="Error" description={error} />}
+
+        {!sessionLoading && !isAdmin ? (
+          <p className="text-gray-500 dark:text-gray-400">Only admins can manage users.</p>
+        ) : (
+          <>
+            <form onSubmit={handleCreate} className="bg-white dark:bg-gray-900/70 border border-gray-200 dark:border-gray-800 rounded-xl shadow-sm p-5 flex flex-wrap gap-3 items-end">
+              <input value={newUser.name} onChange={(e) => setNewUser({ ...newUser, name: e.target.value })} placeholder="Name" className={`${inputClassName} flex-1 min-w-[8rem]`} required />
+              <input type="email" value={newUser.email} onChange={(e) => setNewUser({ ...newUser, email: e.target.value })} placeholder="Email" className={`${inputClassName} flex-1 min-w-[10rem]`} required />
+              <input type="password" autoComplete="new-password" value={newUser.password} onChange={(e) => setNewUser({ ...newUser, password: e.target.value })} placeholder="Initial password" className={`${inputClassName} flex-1 min-w-[10rem]`} required />
+              <select value={newUser.role} onChange={(e) => setNewUser({ ...newUser, role: e.target.value as UserRole })} className={`${inputClassName} capitalize`}>
+                {USER_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+              </select>
+              <button type="submit" disabled={isCreating} className="flex items-center gap-2 bg-blue-600 text-white font-semibold px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors shadow-sm disabled:bg-gray-400">
+                <UserPlus className="h-4 w-4" /> {isCreating ? 'Adding...' : 'Add user'}
+              </button>
+            </form>
+
+            <div className="bg-white dark:bg-gray-900/70 border border-gray-200 dark:border-gray-800 rounded-xl shadow-sm divide-y divide-gray-200 dark:divide-gray-800">
+              {users.map(user => (
+                <div key={user.id} className={`p-4 flex flex-wrap items-center justify-between gap-3 ${user.disabled ? 'opacity-60' : ''}`}>
+                  <div>
+                    <div className="font-semibold">{user.name}</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">{user.email}</div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <select
+                      value={user.role}
+                      disabled={user.id === currentUser?.id}
+                      onChange={(e) => updateUser(user.id, { role: e.target.value as UserRole })}
+                      className={`${inputClassName} capitalize`}
+                    >
+                      {USER_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                    </select>
+                    {user.id !== currentUser?.id && (
+                      <button
+                        onClick={() => updateUser(user.id, { disabled: !user.disabled })}
+                        className={`text-sm px-2 py-1 rounded ${user.disabled ? 'bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300' : 'bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300'}`}
+                      >
+                        {user.disabled ? 'Enable' : 'Disable'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
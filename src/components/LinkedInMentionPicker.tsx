@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { AtSign, Building2, Plus, User } from 'lucide-react';
+import { createMentionToken, isLinkedInUrn } from '@/lib/linkedinText';
+
+interface SavedMention {
+  _id: string;
+  name: string;
+  urn: string;
+  type: 'person' | 'organization';
+}
+
+interface LinkedInMentionPickerProps {
+  // Whether the user may add to the catalogue (authors and up)
+  canSave: boolean;
+  onInsert: (token: string) => void;
+}
+
+// Lets the composer insert @[Name](urn) mentions from the saved catalogue and
+// add new people or organizations to it.
+export default function LinkedInMentionPicker({ canSave, onInsert }: LinkedInMentionPickerProps) {
+  const [mentions, setMentions] = useState<SavedMention[]>([]);
+  const [name, setName] = useState('');
+  const [urn, setUrn] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/linkedin/mentions')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`Failed to load mentions: ${response.status}`)))
+      .then(data => setMentions(data.mentions))
+      .catch(err => console.error('Error loading LinkedIn mentions:', err));
+  }, []);
+
+  const handleSave = async () => {
+    if (!name.trim() || !isLinkedInUrn(urn.trim())) {
+      setError('Enter a name and a URN like urn:li:person:123 or urn:li:organization:123');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/linkedin/mentions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), urn: urn.trim() }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save mention');
+
+      setMentions(prev => [...prev.filter(m => m.urn !== data.mention.urn), data.mention].sort((a, b) => a.name.localeCompare(b.name)));
+      setName('');
+      setUrn('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save mention');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center gap-1 font-medium text-gray-700 dark:text-gray-300">
+        <AtSign className="w-3.5 h-3.5" /> LinkedIn mentions
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {mentions.length === 0 && <span className="text-gray-400 dark:text-gray-500">No saved people or organizations yet.</span>}
+        {mentions.map(mention => (
+          <button
+            key={mention.urn}
+            type="button"
+            title={mention.urn}
+            onClick={() => onInsert(createMentionToken(mention))}
+            className="flex items-center gap-1 px-2 py-1 rounded-full border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-blue-500"
+          >
+            {mention.type === 'organization' ? <Building2 className="w-3 h-3" /> : <User className="w-3 h-3" />}
+            {mention.name}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className="flex-1 min-w-[8rem] p-1.5 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md" />
+        <input value={urn} onChange={(e) => setUrn(e.target.value)} placeholder="urn:li:person:123" className="flex-1 min-w-[10rem] p-1.5 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md" />
+        <button type="button" onClick={handleSave} disabled={isSaving || !canSave} className="flex items-center gap-1 px-2 py-1.5 rounded-md text-blue-600 dark:text-blue-400 disabled:text-gray-400">
+          <Plus className="w-3 h-3" /> {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
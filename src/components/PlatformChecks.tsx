@@ -0,0 +1,62 @@
+"use client";
+
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { getPlatformDefinition } from '@/lib/platforms';
+import { getPlatformCounters, validatePlatformContent, ValidatableContent } from '@/lib/postValidation';
+
+interface PlatformChecksProps {
+  platforms: string[];
+  content: ValidatableContent;
+  // Per-platform overrides of the text and/or media
+  variants?: Record<string, Partial<ValidatableContent>>;
+}
+
+const Counter = ({ label, value, max }: { label: string; value: number; max?: number }) => {
+  const exceeded = max !== undefined && value > max;
+  return (
+    <span className={exceeded ? 'text-red-600 dark:text-red-400 font-semibold' : ''}>
+      {label} {value}{max !== undefined ? `/${max}` : ''}
+    </span>
+  );
+};
+
+// Live per-platform counters and rule violations for the composer.
+export default function PlatformChecks({ platforms, content, variants }: PlatformChecksProps) {
+  if (platforms.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {platforms.map(platform => {
+        const definition = getPlatformDefinition(platform);
+        const platformContent = {
+          text: variants?.[platform]?.text ?? content.text,
+          media: variants?.[platform]?.media ?? content.media,
+        };
+        const counters = getPlatformCounters(platform, platformContent);
+        const issues = validatePlatformContent(platform, platformContent);
+
+        return (
+          <div key={platform} className="text-xs text-gray-500 dark:text-gray-400">
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+              <span className="font-semibold text-gray-700 dark:text-gray-300">{definition?.label ?? platform}</span>
+              <Counter label="Characters" value={counters.textLength} max={counters.maxTextLength} />
+              {counters.maxHashtags !== undefined && <Counter label="#" value={counters.hashtags} max={counters.maxHashtags} />}
+              {counters.maxMentions !== undefined && <Counter label="@" value={counters.mentions} max={counters.maxMentions} />}
+              <Counter label="Media" value={counters.media} max={counters.maxMedia} />
+            </div>
+            {issues.length > 0 && (
+              <ul className="mt-1 space-y-0.5">
+                {issues.map(issue => (
+                  <li key={issue.code} className={`flex items-center gap-1 ${issue.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-yellow-600 dark:text-yellow-400'}`}>
+                    {issue.severity === 'error' ? <AlertCircle className="w-3 h-3 flex-shrink-0" /> : <AlertTriangle className="w-3 h-3 flex-shrink-0" />}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
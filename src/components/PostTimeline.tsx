@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { ArrowRight, Edit, Loader, PlusCircle, Send, Trash2, Webhook } from 'lucide-react';
+
+type AuditAction = 'created' | 'updated' | 'status_changed' | 'deleted' | 'webhook_call' | 'publish_attempt';
+
+interface AuditEntry {
+  _id: string;
+  action: AuditAction;
+  source: 'user' | 'trigger' | 'webhook';
+  actor?: { user_id: string; name: string };
+  changes?: { field: string; from?: unknown; to?: unknown }[];
+  from_status?: string;
+  to_status?: string;
+  platform?: string;
+  direction?: 'outgoing' | 'incoming';
+  success?: boolean;
+  request?: Record<string, unknown>;
+  response?: Record<string, unknown>;
+  message?: string;
+  created_at: string;
+}
+
+const ACTION_ICONS = {
+  created: PlusCircle,
+  updated: Edit,
+  status_changed: ArrowRight,
+  deleted: Trash2,
+  webhook_call: Webhook,
+  publish_attempt: Send,
+};
+
+const SOURCE_LABELS = { user: 'User', trigger: 'Scheduler', webhook: 'Make.com' };
+
+// Renders a logged value compactly; long text and media lists are cut short
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(none)';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+}
+
+function formatStatus(status?: string): string {
+  return status ? status.replace(/_/g, ' ') : 'unknown';
+}
+
+function describeEntry(entry: AuditEntry): string {
+  switch (entry.action) {
+    case 'created': return `Created as ${formatStatus(entry.to_status)}`;
+    case 'updated': return `Edited ${entry.changes?.map(change => change.field).join(', ') || 'the post'}`;
+    case 'status_changed': return `${formatStatus(entry.from_status)} → ${formatStatus(entry.to_status)}`;
+    case 'deleted': return `Deleted while ${formatStatus(entry.from_status)}`;
+    case 'webhook_call': return `${entry.direction === 'incoming' ? 'Callback from' : 'Sent to'} Make.com${entry.success === false ? ' (failed)' : ''}`;
+    case 'publish_attempt': return `${entry.success ? 'Published to' : 'Failed to publish to'} ${entry.platform}`;
+  }
+}
+
+// Request/response summary as "key: value" pairs, leaving out empty values
+function SummaryLine({ label, summary }: { label: string; summary?: Record<string, unknown> }) {
+  const entries = Object.entries(summary ?? {}).filter(([, value]) => value !== undefined && value !== null);
+  if (entries.length === 0) return null;
+  return (
+    <div className="text-xs text-gray-500 dark:text-gray-400 break-all">
+      <span className="font-semibold">{label}:</span> {entries.map(([key, value]) => `${key}: ${formatValue(value)}`).join(' · ')}
+    </div>
+  );
+}
+
+// Audit log of one post from /api/audit, newest first
+export default function PostTimeline({ postId }: { postId: string }) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    fetch(`/api/audit?post_id=${postId}&limit=200`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load history');
+        setEntries(data.events);
+      })
+      .catch(err => {
+        console.error('Error loading post history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      })
+      .finally(() => setLoading(false));
+  }, [postId]);
+
+  if (loading) {
+    return <div className="flex justify-center py-6"><Loader className="h-6 w-6 animate-spin text-blue-600" /></div>;
+  }
+  if (error) {
+    return <p className="text-sm text-red-600 dark:text-red-400">{error}</p>;
+  }
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No history recorded for this post yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+      {entries.map(entry => {
+        const Icon = ACTION_ICONS[entry.action];
+        const failed = entry.success === false;
+        return (
+          <li key={entry._id} className="ml-5">
+            <span className={`absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full ${failed ? 'bg-red-100 dark:bg-red-900' : 'bg-blue-100 dark:bg-blue-900'}`}>
+              <Icon className={`h-3 w-3 ${failed ? 'text-red-600 dark:text-red-300' : 'text-blue-600 dark:text-blue-300'}`} />
+            </span>
+            <div className="text-sm font-semibold">{describeEntry(entry)}</div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {new Date(entry.created_at).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+              {' · '}{entry.actor?.name ?? SOURCE_LABELS[entry.source]}
+            </div>
+            {entry.changes?.map(change => (
+              <div key={change.field} className="text-xs text-gray-600 dark:text-gray-300 break-all">
+                <span className="font-semibold">{change.field}:</span> {formatValue(change.from)} → {formatValue(change.to)}
+              </div>
+            ))}
+            {entry.message && <p className="text-xs text-gray-600 dark:text-gray-300 italic">{entry.message}</p>}
+            <SummaryLine label="Request" summary={entry.request} />
+            <SummaryLine label="Response" summary={entry.response} />
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { diffWords } from '@/lib/textDiff';
+import { describeRecurrence, RecurrenceFrequency } from '@/lib/recurrence';
+
+export interface Revision {
+  _id: string;
+  revision: number;
+  post_text: string;
+  // deleted: the file is gone from media storage and can't be restored
+  post_media: { url: string; type: 'image' | 'video'; alt_text?: string; title?: string; description?: string; crops?: Record<string, { aspect_ratio: string; url: string }>; deleted?: boolean }[];
+  platform_variants?: Record<string, { post_text?: string; post_media?: string[] }>;
+  platforms: string[];
+  scheduled_date: string;
+  timezone?: string;
+  recurrence?: { frequency: RecurrenceFrequency; interval?: number; weekdays?: number[]; until?: string; count?: number };
+  created_by?: { user_id: string; name: string };
+  created_at: string;
+}
+
+interface RevisionHistoryProps {
+  postId: string;
+  // Text currently in the composer, compared against the selected revision
+  currentText: string;
+  onRestore: (revision: Revision) => void;
+}
+
+// Saved revisions of a post with a side-by-side diff against the draft and a
+// restore button that loads the revision back into the composer.
+export default function RevisionHistory({ postId, currentText, onRestore }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/posts/revisions?post_id=${postId}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load revisions');
+        setRevisions(data.revisions);
+      })
+      .catch(err => {
+        console.error('Error loading revisions:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load revisions');
+      });
+  }, [postId]);
+
+  const selected = revisions.find(revision => revision._id === selectedId);
+  const diff = selected ? diffWords(selected.post_text, currentText) : [];
+  const missingMedia = selected?.post_media.filter(item => item.deleted).length ?? 0;
+
+  const formatDateTime = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="bg-white dark:bg-gray-900/70 border border-gray-200 dark:border-gray-800 rounded-xl shadow-sm p-4 space-y-3">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+        <History className="w-5 h-5" /> Revisions
+      </h3>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {!error && revisions.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No revisions saved yet.</p>
+      )}
+
+      <ul className="max-h-48 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-800">
+        {revisions.map(revision => (
+          <li key={revision._id}>
+            <button
+              type="button"
+              onClick={() => setSelectedId(revision._id === selectedId ? null : revision._id)}
+              className={`w-full text-left px-2 py-1.5 text-sm rounded ${revision._id === selectedId ? 'bg-blue-50 dark:bg-blue-950' : 'hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+            >
+              <span className="font-semibold">#{revision.revision}</span>
+              <span className="text-gray-500 dark:text-gray-400"> · {formatDateTime(revision.created_at)}{revision.created_by && ` · ${revision.created_by.name}`}</span>
+              <div className="truncate text-gray-600 dark:text-gray-300">{revision.post_text}</div>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div>
+              <div className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">Revision #{selected.revision}</div>
+              <div className="p-2 rounded bg-gray-50 dark:bg-gray-800 whitespace-pre-wrap break-words">
+                {diff.filter(part => part.type !== 'added').map((part, index) => (
+                  <span key={index} className={part.type === 'removed' ? 'bg-red-100 dark:bg-red-900/60 line-through' : ''}>{part.text}</span>
+                ))}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">Current draft</div>
+              <div className="p-2 rounded bg-gray-50 dark:bg-gray-800 whitespace-pre-wrap break-words">
+                {diff.filter(part => part.type !== 'removed').map((part, index) => (
+                  <span key={index} className={part.type === 'added' ? 'bg-green-100 dark:bg-green-900/60' : ''}>{part.text}</span>
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Scheduled {formatDateTime(selected.scheduled_date)} · {selected.platforms.join(', ') || 'no platforms'} · {selected.post_media.length} media{selected.recurrence && ` · ${describeRecurrence(selected.recurrence)}`}
+            {missingMedia > 0 && <span className="text-orange-600 dark:text-orange-400"> ({missingMedia} no longer available)</span>}
+          </div>
+          <button
+            type="button"
+            onClick={() => onRestore(selected)}
+            className="flex items-center gap-2 text-sm font-semibold text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" /> Restore into draft
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
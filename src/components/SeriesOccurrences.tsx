@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Edit, SkipForward, Undo2 } from 'lucide-react';
+
+interface Occurrence {
+  occurrence_date: string;
+  skipped: boolean;
+  // Set once the occurrence has its own post, e.g. because it was edited
+  post_id?: string;
+  status?: string;
+  scheduled_date?: string;
+}
+
+interface SeriesOccurrencesProps {
+  seriesId: string;
+  canModify: boolean;
+  // Zone the dates are shown in
+  timeZone: string;
+  // Opens the occurrence's own post in the composer
+  onEdit: (postId: string) => void;
+}
+
+// Upcoming occurrences of a recurring series, each of which can be edited on
+// its own or skipped
+export default function SeriesOccurrences({ seriesId, canModify, timeZone, onEdit }: SeriesOccurrencesProps) {
+  const [occurrences, setOccurrences] = useState<Occurrence[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busyDate, setBusyDate] = useState<string | null>(null);
+  // Bumped to load the list again after a change
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    fetch(`/api/posts/occurrences?series_id=${seriesId}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load occurrences');
+        setOccurrences(data.occurrences);
+      })
+      .catch(err => {
+        console.error('Error loading occurrences:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load occurrences');
+      });
+  }, [seriesId, reloadKey]);
+
+  const changeOccurrence = async (occurrence: Occurrence, action: 'edit' | 'skip' | 'unskip') => {
+    if (action === 'edit' && occurrence.post_id) {
+      onEdit(occurrence.post_id);
+      return;
+    }
+
+    setBusyDate(occurrence.occurrence_date);
+    setError(null);
+    try {
+      const response = await fetch('/api/posts/occurrences', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ series_id: seriesId, occurrence_date: occurrence.occurrence_date, action }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to change occurrence');
+      } else if (action === 'edit') {
+        onEdit(data.post_id);
+      } else {
+        setReloadKey(key => key + 1);
+      }
+    } catch (err) {
+      console.error('Error changing occurrence:', err);
+      setError('Failed to change occurrence. Please try again.');
+    } finally {
+      setBusyDate(null);
+    }
+  };
+
+  const formatDateTime = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', timeZone, timeZoneName: 'short' });
+
+  return (
+    <div className="mt-3 space-y-1">
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+      {occurrences.length === 0 && !error && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">No upcoming occurrences.</p>
+      )}
+      {occurrences.map(occurrence => (
+        <div key={occurrence.occurrence_date} className="flex items-center justify-between gap-2 text-xs">
+          <span className={occurrence.skipped ? 'line-through text-gray-400 dark:text-gray-500' : 'text-gray-700 dark:text-gray-300'}>
+            {formatDateTime(occurrence.scheduled_date ?? occurrence.occurrence_date)}
+            {occurrence.post_id && <span className="ml-1 text-blue-600 dark:text-blue-400">(edited · {occurrence.status?.replace(/_/g, ' ')})</span>}
+            {occurrence.skipped && <span className="ml-1 no-underline">(skipped)</span>}
+          </span>
+          {canModify && (
+            <span className="flex gap-1">
+              {occurrence.skipped ? (
+                <button onClick={() => changeOccurrence(occurrence, 'unskip')} disabled={busyDate !== null} className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50">
+                  <Undo2 className="w-3 h-3" /> Unskip
+                </button>
+              ) : (
+                <>
+                  <button onClick={() => changeOccurrence(occurrence, 'edit')} disabled={busyDate !== null} className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-800 disabled:opacity-50">
+                    <Edit className="w-3 h-3" /> Edit
+                  </button>
+                  <button onClick={() => changeOccurrence(occurrence, 'skip')} disabled={busyDate !== null} className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-orange-100 dark:bg-orange-900 text-orange-700 dark:text-orange-300 hover:bg-orange-200 dark:hover:bg-orange-800 disabled:opacity-50">
+                    <SkipForward className="w-3 h-3" /> Skip
+                  </button>
+                </>
+              )}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
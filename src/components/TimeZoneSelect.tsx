@@ -0,0 +1,27 @@
+"use client";
+
+import { useMemo } from 'react';
+import { getTimeZoneOffsetLabel, getTimeZones } from '@/lib/timezones';
+
+interface TimeZoneSelectProps {
+  id?: string;
+  value: string;
+  onChange: (timeZone: string) => void;
+  className?: string;
+}
+
+// Picker of IANA time zones, showing the current UTC offset of the chosen one
+export default function TimeZoneSelect({ id, value, onChange, className }: TimeZoneSelectProps) {
+  const timeZones = useMemo(() => getTimeZones(), []);
+
+  return (
+    <select id={id} value={value} onChange={(e) => onChange(e.target.value)} className={className}>
+      {!timeZones.includes(value) && <option value={value}>{value}</option>}
+      {timeZones.map(timeZone => (
+        <option key={timeZone} value={timeZone}>
+          {timeZone === value ? `${timeZone.replace(/_/g, ' ')} (${getTimeZoneOffsetLabel(timeZone)})` : timeZone.replace(/_/g, ' ')}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { LogIn, LogOut, Users } from 'lucide-react';
+import { hasRole, UserRole } from '@/lib/roles';
+
+export interface CurrentUser {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  // Zone chosen for reading dates; the browser's when unset
+  timezone?: string;
+}
+
+// Loads the signed-in user from /api/auth/session
+export function useCurrentUser() {
+  const [user, setUser] = useState<CurrentUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`Failed to load session: ${response.status}`)))
+      .then(data => setUser(data.user))
+      .catch(err => console.error('Error loading session:', err))
+      .finally(() => setLoading(false));
+  }, []);
+
+  return { user, loading };
+}
+
+// Name and role of the signed-in user with sign-out, or a sign-in link
+export default function UserMenu({ user, loading }: { user: CurrentUser | null; loading: boolean }) {
+  const router = useRouter();
+
+  const handleSignOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (err) {
+      console.error('Error signing out:', err);
+    }
+    router.push('/login');
+  };
+
+  if (loading) return null;
+
+  if (!user) {
+    return (
+      <button onClick={() => router.push('/login')} className="flex items-center gap-1 text-sm font-semibold text-blue-600 dark:text-blue-400 hover:text-blue-700">
+        <LogIn className="h-4 w-4" /> Sign in
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <span className="text-gray-700 dark:text-gray-300">
+        {user.name} <span className="text-xs text-gray-500 dark:text-gray-400 capitalize">({user.role})</span>
+      </span>
+      {hasRole(user.role, 'admin') && (
+        <button onClick={() => router.push('/users')} title="Manage users" className="p-1.5 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-800">
+          <Users className="h-4 w-4" />
+        </button>
+      )}
+      <button onClick={handleSignOut} title="Sign out" className="p-1.5 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-800">
+        <LogOut className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { createHash, randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId, WithId } from 'mongodb';
+import { getSessionsCollection } from '@/models/Session';
+import { getUsersCollection, User } from '@/models/User';
+import { SocialMediaPost, UserRef } from '@/models/SocialMediaPost';
+import { canModifyPost, hasRole, UserRole } from '@/lib/roles';
+
+// Cookie-based sessions for the dashboard and the API route handlers.
+
+export const SESSION_COOKIE = 'session';
+const SESSION_DURATION_MS = Number(process.env.SESSION_DAYS || 14) * 24 * 60 * 60 * 1000;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Starts a session for a user and sets its cookie on the response.
+ */
+export async function startSession(response: NextResponse, userId: ObjectId): Promise<void> {
+  const token = randomBytes(32).toString('base64url');
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SESSION_DURATION_MS);
+
+  const sessionsCollection = await getSessionsCollection();
+  await sessionsCollection.insertOne({ token_hash: hashToken(token), user_id: userId, created_at: now, expires_at: expiresAt });
+
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+/**
+ * Ends the session of the request (if any) and clears its cookie on the response.
+ */
+export async function endSession(request: NextRequest, response: NextResponse): Promise<void> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token) {
+    const sessionsCollection = await getSessionsCollection();
+    await sessionsCollection.deleteOne({ token_hash: hashToken(token) });
+  }
+  response.cookies.delete(SESSION_COOKIE);
+}
+
+/**
+ * Returns the signed-in user of a request, or null if there is no valid session
+ * or the user has been disabled.
+ */
+export async function getSessionUser(request: NextRequest): Promise<WithId<User> | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const sessionsCollection = await getSessionsCollection();
+  const session = await sessionsCollection.findOne({ token_hash: hashToken(token), expires_at: { $gt: new Date() } });
+  if (!session) return null;
+
+  const usersCollection = await getUsersCollection();
+  const user = await usersCollection.findOne({ _id: session.user_id });
+  return user && !user.disabled ? user : null;
+}
+
+/**
+ * Returns the signed-in user if they have at least the given role. Otherwise
+ * returns a 401 (not signed in) or 403 (role too low) response.
+ */
+export async function requireRole(request: NextRequest, role: UserRole): Promise<WithId<User> | NextResponse> {
+  const user = await getSessionUser(request);
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized: Please sign in.' }, { status: 401 });
+  }
+
+  if (!hasRole(user.role, role)) {
+    return NextResponse.json({ error: `Forbidden: This requires the ${role} role.` }, { status: 403 });
+  }
+
+  return user;
+}
+
+/**
+ * Whether the request comes from the scheduler, i.e. carries
+ * "Authorization: Bearer <CRON_SECRET>". Used by jobs that run without a user.
+ */
+export function isCronRequest(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  return Boolean(cronSecret) && request.headers.get('authorization') === `Bearer ${cronSecret}`;
+}
+
+export function toUserRef(user: WithId<User>): UserRef {
+  return { user_id: user._id, name: user.name };
+}
+
+export function canUserModifyPost(user: WithId<User>, post: SocialMediaPost): boolean {
+  return canModifyPost({ id: user._id.toString(), role: user.role }, post.created_by?.user_id.toString());
+}
@@ -0,0 +1,14 @@
+import { v2 as cloudinary } from 'cloudinary';
+
+// --- Cloudinary Configuration ---
+cloudinary.config({
+  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+  api_key: process.env.CLOUDINARY_API_KEY,
+  api_secret: process.env.CLOUDINARY_API_SECRET,
+  secure: true,
+});
+
+// Folder every post upload goes into
+export const CLOUDINARY_MEDIA_FOLDER = 'social_media_posts';
+
+export { cloudinary };
@@ -0,0 +1,45 @@
+// Helpers for Cloudinary delivery URLs. Per-platform crops are transformations
+// added to the URL, so nothing is re-uploaded and the original is kept.
+
+const UPLOAD_MARKER = '/upload/';
+
+/**
+ * Formats an aspect ratio such as '4:5' or '1.91:1' for a Cloudinary ar_ parameter,
+ * which takes either whole-number ratios or a decimal.
+ */
+function toCloudinaryAspectRatio(aspectRatio: string): string {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  if (Number.isInteger(width) && Number.isInteger(height)) return `${width}:${height}`;
+  return String(Math.round((width / height) * 100) / 100);
+}
+
+export function isAspectRatio(value: unknown): value is string {
+  return typeof value === 'string' && /^\d+(\.\d+)?:\d+(\.\d+)?$/.test(value);
+}
+
+/**
+ * Returns the URL of a Cloudinary asset cropped to an aspect ratio, keeping the
+ * most interesting part of the image or video in frame. Returns null for URLs
+ * that aren't Cloudinary uploads.
+ */
+export function getCloudinaryCropUrl(url: string, aspectRatio: string): string | null {
+  const index = url.indexOf(UPLOAD_MARKER);
+  if (!url.includes('res.cloudinary.com') || index < 0 || !isAspectRatio(aspectRatio)) return null;
+
+  const transformation = `c_fill,ar_${toCloudinaryAspectRatio(aspectRatio)},g_auto`;
+  const splitAt = index + UPLOAD_MARKER.length;
+  return `${url.slice(0, splitAt)}${transformation}/${url.slice(splitAt)}`;
+}
+
+/**
+ * Recovers the public id of an untransformed Cloudinary upload URL, e.g.
+ * .../upload/v1712345/social_media_posts/abc.jpg -> social_media_posts/abc.
+ * Returns null for other URLs.
+ */
+export function getCloudinaryPublicId(url: string): string | null {
+  const index = url.indexOf(UPLOAD_MARKER);
+  if (!url.includes('res.cloudinary.com') || index < 0) return null;
+
+  const path = url.slice(index + UPLOAD_MARKER.length).split('?')[0].replace(/^v\d+\//, '');
+  return path.replace(/\.[^./]+$/, '') || null;
+}
@@ -0,0 +1,84 @@
+// LinkedIn commentary uses "little Text Format": reserved characters must be
+// escaped with a backslash, mentions are written as @[Name](urn) and hashtags
+// as {hashtag|\#|name}.
+//
+// The composer stores mentions with the same @[Name](urn:li:...) syntax in
+// post_text. LinkedIn turns them into real mentions; every other platform
+// gets just the name.
+
+const RESERVED_CHARACTERS = /([|{}@[\]()<>#*_~\\])/g;
+const MENTION_TOKEN = /@\[([^\]]+)\]\((urn:li:(?:person|organization):[A-Za-z0-9_-]+)\)/g;
+const HASHTAG = /(^|[^\p{L}\p{N}_&])#([\p{L}\p{N}_]+)/gu;
+const URN_PATTERN = /^urn:li:(person|organization):[A-Za-z0-9_-]+$/;
+
+export interface MentionToken {
+  name: string;
+  urn: string;
+}
+
+export function isLinkedInUrn(urn: string): boolean {
+  return URN_PATTERN.test(urn);
+}
+
+/**
+ * Builds the composer's mention syntax for a person or organization.
+ */
+export function createMentionToken({ name, urn }: MentionToken): string {
+  return `@[${name.replace(/[[\]]/g, '')}](${urn})`;
+}
+
+/**
+ * Escapes every little-text reserved character.
+ */
+export function escapeLittleText(text: string): string {
+  return text.replace(RESERVED_CHARACTERS, '\\$1');
+}
+
+// Escapes a stretch of plain text and turns its #hashtags into hashtag templates
+function formatPlainSegment(segment: string): string {
+  let formatted = '';
+  let lastIndex = 0;
+
+  for (const match of segment.matchAll(HASHTAG)) {
+    const [whole, prefix, tag] = match;
+    const start = match.index ?? 0;
+    formatted += escapeLittleText(segment.slice(lastIndex, start) + prefix);
+    formatted += `{hashtag|\\#|${escapeLittleText(tag)}}`;
+    lastIndex = start + whole.length;
+  }
+
+  return formatted + escapeLittleText(segment.slice(lastIndex));
+}
+
+/**
+ * Converts composer text into LinkedIn commentary: mention tokens become URN
+ * mentions, hashtags become hashtag templates and everything else is escaped.
+ */
+export function formatLinkedInCommentary(text: string): string {
+  let formatted = '';
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_TOKEN)) {
+    const [whole, name, urn] = match;
+    const start = match.index ?? 0;
+    formatted += formatPlainSegment(text.slice(lastIndex, start));
+    formatted += `@[${escapeLittleText(name)}](${urn})`;
+    lastIndex = start + whole.length;
+  }
+
+  return formatted + formatPlainSegment(text.slice(lastIndex));
+}
+
+/**
+ * Replaces mention tokens with the plain name, for platforms without URN mentions.
+ */
+export function renderMentionsAsPlainText(text: string): string {
+  return text.replace(MENTION_TOKEN, (_, name: string) => name);
+}
+
+/**
+ * Lists the mention tokens in a text.
+ */
+export function extractMentions(text: string): MentionToken[] {
+  return Array.from(text.matchAll(MENTION_TOKEN), ([, name, urn]) => ({ name, urn }));
+}
@@ -0,0 +1,169 @@
+import { MediaKind } from './platforms';
+
+// Works out what an uploaded file really is from its bytes instead of trusting
+// the file name or the browser's MIME type. Only the container headers are read,
+// so this stays cheap even for large videos.
+
+export interface MediaMetadata {
+  mime_type: string;
+  type: MediaKind;
+  // Bytes
+  size: number;
+  width?: number;
+  height?: number;
+  // Seconds, for videos
+  duration?: number;
+}
+
+type Dimensions = Pick<MediaMetadata, 'width' | 'height'>;
+
+function startsWith(buffer: Buffer, signature: number[], offset = 0): boolean {
+  return buffer.length >= offset + signature.length && signature.every((byte, index) => buffer[offset + index] === byte);
+}
+
+function ascii(buffer: Buffer, start: number, end: number): string {
+  return buffer.length >= end ? buffer.toString('latin1', start, end) : '';
+}
+
+function getJpegDimensions(buffer: Buffer): Dimensions {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) return {};
+    const marker = buffer[offset + 1];
+
+    // Fill bytes and markers without a length field
+    if (marker === 0xff) { offset += 1; continue; }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) { offset += 2; continue; }
+
+    // Start-of-frame markers carry the image size (C4, C8 and CC are not frames)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return {};
+}
+
+function getWebpDimensions(buffer: Buffer): Dimensions {
+  switch (ascii(buffer, 12, 16)) {
+    case 'VP8 ':
+      return buffer.length >= 30
+        ? { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff }
+        : {};
+    case 'VP8L': {
+      if (buffer.length < 25) return {};
+      const [b0, b1, b2, b3] = buffer.subarray(21, 25);
+      return {
+        width: 1 + (((b1 & 0x3f) << 8) | b0),
+        height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)),
+      };
+    }
+    case 'VP8X':
+      return buffer.length >= 30
+        ? { width: 1 + buffer.readUIntLE(24, 3), height: 1 + buffer.readUIntLE(27, 3) }
+        : {};
+    default:
+      return {};
+  }
+}
+
+// Calls visit for every ISO base media box (MP4/MOV) between start and end
+function forEachBox(buffer: Buffer, start: number, end: number, visit: (type: string, contentStart: number, boxEnd: number) => void) {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    let headerSize = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) return;
+
+    const boxEnd = Math.min(offset + size, end);
+    visit(ascii(buffer, offset + 4, offset + 8), offset + headerSize, boxEnd);
+    offset += size;
+  }
+}
+
+function getIsoVideoDetails(buffer: Buffer): Pick<MediaMetadata, 'width' | 'height' | 'duration'> {
+  const details: Pick<MediaMetadata, 'width' | 'height' | 'duration'> = {};
+
+  const visit = (type: string, contentStart: number, boxEnd: number) => {
+    if (type === 'moov' || type === 'trak') {
+      forEachBox(buffer, contentStart, boxEnd, visit);
+    } else if (type === 'mvhd' && contentStart + 32 <= boxEnd) {
+      const version = buffer[contentStart];
+      const timescale = buffer.readUInt32BE(contentStart + (version === 1 ? 20 : 12));
+      const duration = version === 1
+        ? Number(buffer.readBigUInt64BE(contentStart + 24))
+        : buffer.readUInt32BE(contentStart + 16);
+      if (timescale > 0) details.duration = duration / timescale;
+    } else if (type === 'tkhd' && details.width === undefined) {
+      // Width and height are 16.16 fixed point at the end of the track header;
+      // audio tracks have them at zero
+      const sizeOffset = contentStart + (buffer[contentStart] === 1 ? 88 : 76);
+      if (sizeOffset + 8 <= boxEnd) {
+        const width = buffer.readUInt32BE(sizeOffset) / 65536;
+        const height = buffer.readUInt32BE(sizeOffset + 4) / 65536;
+        if (width > 0 && height > 0) {
+          details.width = Math.round(width);
+          details.height = Math.round(height);
+        }
+      }
+    }
+  };
+
+  forEachBox(buffer, 0, buffer.length, visit);
+  return details;
+}
+
+/**
+ * Inspects the bytes of a media file. Returns null when the format isn't one
+ * of the supported image or video formats.
+ */
+export function inspectMedia(buffer: Buffer): MediaMetadata | null {
+  const size = buffer.length;
+
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+    return { mime_type: 'image/jpeg', type: 'image', size, ...getJpegDimensions(buffer) };
+  }
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return buffer.length >= 24
+      ? { mime_type: 'image/png', type: 'image', size, width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) }
+      : { mime_type: 'image/png', type: 'image', size };
+  }
+  if (ascii(buffer, 0, 6) === 'GIF87a' || ascii(buffer, 0, 6) === 'GIF89a') {
+    return buffer.length >= 10
+      ? { mime_type: 'image/gif', type: 'image', size, width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) }
+      : { mime_type: 'image/gif', type: 'image', size };
+  }
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WEBP') {
+    return { mime_type: 'image/webp', type: 'image', size, ...getWebpDimensions(buffer) };
+  }
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'AVI ') {
+    return { mime_type: 'video/x-msvideo', type: 'video', size };
+  }
+  if (startsWith(buffer, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return { mime_type: 'video/webm', type: 'video', size };
+  }
+  // Older QuickTime files start straight with a movie or data box
+  if (['moov', 'mdat', 'wide'].includes(ascii(buffer, 4, 8))) {
+    return { mime_type: 'video/quicktime', type: 'video', size, ...getIsoVideoDetails(buffer) };
+  }
+  if (ascii(buffer, 4, 8) === 'ftyp') {
+    const brand = ascii(buffer, 8, 12);
+    if (['heic', 'heix', 'mif1', 'msf1'].includes(brand)) {
+      return { mime_type: 'image/heic', type: 'image', size };
+    }
+    return {
+      mime_type: brand === 'qt  ' ? 'video/quicktime' : 'video/mp4',
+      type: 'video',
+      size,
+      ...getIsoVideoDetails(buffer),
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,135 @@
+import { Facebook, Instagram, Linkedin, Twitter, type LucideIcon } from 'lucide-react';
+
+export type MediaKind = 'image' | 'video';
+
+// Content rules of a platform, enforced by src/lib/postValidation.ts on both
+// the API and the composer.
+export interface PlatformLimits {
+  // Omitted when long text is handled another way (e.g. X threads)
+  maxTextLength?: number;
+  maxHashtags?: number;
+  maxMentions?: number;
+  maxMedia: number;
+  maxVideos: number;
+  allowedMediaTypes: MediaKind[];
+  // File formats and sizes accepted, checked against the real MIME type and
+  // size found by src/lib/mediaInspection.ts
+  allowedMimeTypes: string[];
+  maxImageBytes: number;
+  maxVideoBytes: number;
+  maxVideoSeconds?: number;
+  // Whether images and videos can be combined in one post
+  allowsMixedMedia: boolean;
+  requiresMedia: boolean;
+}
+
+// Client-safe description of a platform. The composer and dashboard read this
+// list, while the publishing side looks up the matching adapter in
+// src/services/platforms by the same key.
+export interface PlatformDefinition {
+  key: string;
+  label: string;
+  icon: LucideIcon;
+  // Brand colour as a Tailwind background class, e.g. for the calendar
+  color: string;
+  // Disabled platforms are still rendered on existing posts but can't be selected in the composer
+  enabled: boolean;
+  limits: PlatformLimits;
+  // Aspect ratios media can be cropped to for this platform (width:height)
+  cropAspectRatios: string[];
+}
+
+const MB = 1024 * 1024;
+
+export const PLATFORM_DEFINITIONS: PlatformDefinition[] = [
+  {
+    key: 'linkedin',
+    label: 'LinkedIn',
+    icon: Linkedin,
+    color: 'bg-sky-700',
+    enabled: true,
+    limits: {
+      maxTextLength: 3000,
+      // Multi-image posts take up to 9 images; a video is always posted alone
+      maxMedia: 9,
+      maxVideos: 1,
+      allowedMediaTypes: ['image', 'video'],
+      allowedMimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'video/mp4'],
+      maxImageBytes: 10 * MB,
+      maxVideoBytes: 500 * MB,
+      maxVideoSeconds: 30 * 60,
+      allowsMixedMedia: false,
+      requiresMedia: false,
+    },
+    cropAspectRatios: ['1.91:1', '1:1'],
+  },
+  {
+    key: 'facebook',
+    label: 'Facebook',
+    icon: Facebook,
+    color: 'bg-blue-600',
+    enabled: true,
+    limits: {
+      maxTextLength: 63206,
+      maxMedia: 10,
+      maxVideos: 1,
+      allowedMediaTypes: ['image', 'video'],
+      allowedMimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'video/mp4', 'video/quicktime'],
+      maxImageBytes: 10 * MB,
+      maxVideoBytes: 1024 * MB,
+      maxVideoSeconds: 240 * 60,
+      allowsMixedMedia: false,
+      requiresMedia: false,
+    },
+    cropAspectRatios: ['1:1', '4:5', '1.91:1'],
+  },
+  {
+    key: 'instagram',
+    label: 'Instagram',
+    icon: Instagram,
+    color: 'bg-pink-500',
+    enabled: true,
+    limits: {
+      maxTextLength: 2200,
+      maxHashtags: 30,
+      maxMentions: 20,
+      maxMedia: 10,
+      maxVideos: 10,
+      allowedMediaTypes: ['image', 'video'],
+      allowedMimeTypes: ['image/jpeg', 'video/mp4', 'video/quicktime'],
+      maxImageBytes: 8 * MB,
+      maxVideoBytes: 300 * MB,
+      maxVideoSeconds: 15 * 60,
+      allowsMixedMedia: true,
+      requiresMedia: true,
+    },
+    cropAspectRatios: ['1:1', '4:5', '1.91:1'],
+  },
+  {
+    key: 'twitter',
+    label: 'X (Twitter)',
+    icon: Twitter,
+    color: 'bg-slate-800',
+    enabled: true,
+    limits: {
+      maxMedia: 4,
+      maxVideos: 1,
+      allowedMediaTypes: ['image', 'video'],
+      allowedMimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'video/mp4', 'video/quicktime'],
+      maxImageBytes: 5 * MB,
+      maxVideoBytes: 512 * MB,
+      maxVideoSeconds: 140,
+      allowsMixedMedia: false,
+      requiresMedia: false,
+    },
+    cropAspectRatios: ['16:9', '1:1'],
+  },
+];
+
+export function getPlatformDefinition(key: string): PlatformDefinition | undefined {
+  return PLATFORM_DEFINITIONS.find(definition => definition.key === key.toLowerCase());
+}
+
+export function getEnabledPlatforms(): PlatformDefinition[] {
+  return PLATFORM_DEFINITIONS.filter(definition => definition.enabled);
+}
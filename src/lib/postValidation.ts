@@ -0,0 +1,183 @@
+import { getPlatformDefinition, MediaKind } from './platforms';
+import { splitIntoThread, getTweetLength } from './twitterThread';
+import { extractMentions, renderMentionsAsPlainText } from './linkedinText';
+import type { MediaMetadata } from './mediaInspection';
+
+// Per-platform content validation shared by the API routes, the platform
+// adapters and the composer's live counters.
+
+export interface ValidationIssue {
+  platform: string;
+  field: 'text' | 'media' | 'platforms';
+  code: string;
+  message: string;
+  // Errors block scheduling; warnings are only shown
+  severity: 'error' | 'warning';
+}
+
+// File details are checked when known (inspected uploads, stored metadata)
+export type ValidatableMedia = { type: MediaKind } & Partial<Omit<MediaMetadata, 'type'>>;
+
+export interface ValidatableContent {
+  text: string;
+  media: ValidatableMedia[];
+}
+
+export interface PlatformCounters {
+  textLength: number;
+  maxTextLength?: number;
+  hashtags: number;
+  maxHashtags?: number;
+  mentions: number;
+  maxMentions?: number;
+  media: number;
+  maxMedia: number;
+  // Number of posts the text is split into on platforms that thread long text
+  threadLength?: number;
+}
+
+const HASHTAG_REGEX = /(^|[^\p{L}\p{N}_&])#[\p{L}\p{N}_]+/gu;
+const MENTION_REGEX = /(^|[^\p{L}\p{N}_])@[\p{L}\p{N}_.]+/gu;
+
+/**
+ * Guesses the media type from the file extension of a media URL.
+ */
+export function detectMediaType(mediaUrl: string): MediaKind {
+  return mediaUrl.match(/\.(mp4|mov|avi|wmv|flv|webm)$/i) ? 'video' : 'image';
+}
+
+/**
+ * Media type from a MIME type such as 'video/mp4'.
+ */
+export function mediaTypeFromMime(mimeType: string): MediaKind {
+  return mimeType.startsWith('video/') ? 'video' : 'image';
+}
+
+export function countHashtags(text: string): number {
+  return (text.match(HASHTAG_REGEX) ?? []).length;
+}
+
+// Counts plain @handles as well as structured @[Name](urn) mentions
+export function countMentions(text: string): number {
+  return (renderMentionsAsPlainText(text).match(MENTION_REGEX) ?? []).length + extractMentions(text).length;
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / 1024 / 1024 * 10) / 10} MB`;
+}
+
+function getTextLength(platform: string, text: string): number {
+  return platform === 'twitter' ? getTweetLength(text) : Array.from(text).length;
+}
+
+/**
+ * Counts everything a platform limits, for display next to the composer.
+ */
+export function getPlatformCounters(platform: string, content: ValidatableContent): PlatformCounters {
+  const limits = getPlatformDefinition(platform)?.limits;
+  // Mentions are published as their name, so that is what counts towards the length
+  const text = renderMentionsAsPlainText(content.text);
+
+  return {
+    textLength: getTextLength(platform, text),
+    maxTextLength: limits?.maxTextLength,
+    hashtags: countHashtags(content.text),
+    maxHashtags: limits?.maxHashtags,
+    mentions: countMentions(content.text),
+    maxMentions: limits?.maxMentions,
+    media: content.media.length,
+    maxMedia: limits?.maxMedia ?? 0,
+    threadLength: platform === 'twitter' && text ? splitIntoThread(text).length : undefined,
+  };
+}
+
+/**
+ * Checks content against the rules of one platform.
+ */
+export function validatePlatformContent(platform: string, content: ValidatableContent): ValidationIssue[] {
+  const definition = getPlatformDefinition(platform);
+  const issue = (field: ValidationIssue['field'], code: string, message: string, severity: ValidationIssue['severity'] = 'error'): ValidationIssue =>
+    ({ platform, field, code, message, severity });
+
+  if (!definition || !definition.enabled) {
+    return [issue('platforms', 'unsupported_platform', `Unsupported platform: ${platform}`)];
+  }
+
+  const { label, limits } = definition;
+  const counters = getPlatformCounters(definition.key, content);
+  const videos = content.media.filter(item => item.type === 'video').length;
+  const issues: ValidationIssue[] = [];
+
+  if (!content.text.trim() && content.media.length === 0) {
+    issues.push(issue('text', 'empty', `${label} posts require text or media`));
+  }
+  if (limits.maxTextLength !== undefined && counters.textLength > limits.maxTextLength) {
+    issues.push(issue('text', 'text_too_long', `${label} text is ${counters.textLength} characters; the limit is ${limits.maxTextLength}`));
+  }
+  if (counters.threadLength !== undefined && counters.threadLength > 1) {
+    issues.push(issue('text', 'thread', `${label} will publish this as a thread of ${counters.threadLength} posts`, 'warning'));
+  }
+  if (limits.maxHashtags !== undefined && counters.hashtags > limits.maxHashtags) {
+    issues.push(issue('text', 'too_many_hashtags', `${label} allows at most ${limits.maxHashtags} hashtags; this post has ${counters.hashtags}`));
+  }
+  if (limits.maxMentions !== undefined && counters.mentions > limits.maxMentions) {
+    issues.push(issue('text', 'too_many_mentions', `${label} allows at most ${limits.maxMentions} @mentions; this post has ${counters.mentions}`));
+  }
+  if (limits.requiresMedia && content.media.length === 0) {
+    issues.push(issue('media', 'media_required', `${label} posts require at least one image or video`));
+  }
+  if (content.media.length > limits.maxMedia) {
+    issues.push(issue('media', 'too_many_media', `${label} posts can contain at most ${limits.maxMedia} media file${limits.maxMedia === 1 ? '' : 's'}; this post has ${content.media.length}`));
+  }
+  if (videos > limits.maxVideos) {
+    issues.push(issue('media', 'too_many_videos', `${label} posts can contain at most ${limits.maxVideos} video${limits.maxVideos === 1 ? '' : 's'}`));
+  }
+  if (!limits.allowsMixedMedia && videos > 0 && videos < content.media.length) {
+    issues.push(issue('media', 'mixed_media', `${label} posts can't combine images and videos`));
+  }
+  for (const type of new Set(content.media.map(item => item.type))) {
+    if (!limits.allowedMediaTypes.includes(type)) {
+      issues.push(issue('media', 'media_type_not_allowed', `${label} doesn't accept ${type} files`));
+    }
+  }
+  for (const mimeType of new Set(content.media.map(item => item.mime_type))) {
+    if (mimeType && !limits.allowedMimeTypes.includes(mimeType)) {
+      issues.push(issue('media', 'mime_type_not_allowed', `${label} doesn't accept ${mimeType} files`));
+    }
+  }
+  content.media.forEach((item, index) => {
+    const maxBytes = item.type === 'video' ? limits.maxVideoBytes : limits.maxImageBytes;
+    if (item.size !== undefined && item.size > maxBytes) {
+      issues.push(issue('media', 'media_too_large', `${label} ${item.type}s can be at most ${formatMegabytes(maxBytes)}; file ${index + 1} is ${formatMegabytes(item.size)}`));
+    }
+    if (item.type === 'video' && item.duration !== undefined && limits.maxVideoSeconds !== undefined && item.duration > limits.maxVideoSeconds) {
+      issues.push(issue('media', 'video_too_long', `${label} videos can be at most ${limits.maxVideoSeconds} seconds long; file ${index + 1} is ${Math.round(item.duration)} seconds`));
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validates a post for every selected platform, using the platform's variant
+ * of the text and media where there is one.
+ */
+export function validatePost(
+  post: ValidatableContent & { platforms: string[]; variants?: Record<string, Partial<ValidatableContent>> }
+): ValidationIssue[] {
+  if (post.platforms.length === 0) {
+    return [{ platform: '', field: 'platforms', code: 'no_platforms', message: 'Please select at least one platform.', severity: 'error' }];
+  }
+  return post.platforms.flatMap(platform => {
+    const key = platform.toLowerCase();
+    const variant = post.variants?.[key];
+    return validatePlatformContent(key, {
+      text: variant?.text ?? post.text,
+      media: variant?.media ?? post.media,
+    });
+  });
+}
+
+export function hasBlockingIssues(issues: ValidationIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
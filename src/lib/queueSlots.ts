@@ -0,0 +1,57 @@
+// Weekly time slots of a posting queue, e.g. weekdays at 09:00 and 15:00. Slot
+// times are wall-clock times in the team's zone, so they stay put across DST.
+
+import { CalendarDateTime, fromDate, getDayOfWeek, toCalendarDate, toZoned } from '@internationalized/date';
+
+export interface QueueSlot {
+  // 0 (Sunday) to 6
+  weekdays: number[];
+  // HH:mm, 24-hour
+  time: string;
+}
+
+// How far ahead free slots are looked for
+const MAX_DAYS = 366;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Yields the times of the slots after `after`, in order, for up to a year.
+ * Slots at the same time are yielded once.
+ */
+export function* iterateSlotTimes(slots: QueueSlot[], timeZone: string, after: Date): Generator<Date> {
+  const firstDay = toCalendarDate(fromDate(after, timeZone));
+
+  for (let offset = 0; offset < MAX_DAYS; offset++) {
+    const day = firstDay.add({ days: offset });
+    const weekday = getDayOfWeek(day, 'en-US');
+    const times = [...new Set(slots.filter(slot => slot.weekdays.includes(weekday)).map(slot => slot.time))].sort();
+
+    for (const time of times) {
+      const [hour, minute] = time.split(':').map(Number);
+      const date = toZoned(new CalendarDateTime(day.year, day.month, day.day, hour, minute), timeZone, 'compatible').toDate();
+      if (date > after) yield date;
+    }
+  }
+}
+
+/**
+ * Checks the slots sent by a client. Returns a message for invalid slots.
+ */
+export function parseQueueSlots(input: unknown): QueueSlot[] | string {
+  if (!Array.isArray(input)) return 'slots must be a list';
+
+  const slots: QueueSlot[] = [];
+  for (const slot of input) {
+    const { weekdays, time } = (slot ?? {}) as Record<string, unknown>;
+    if (!Array.isArray(weekdays) || weekdays.length === 0 || weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return 'Each slot needs weekdays from 0 (Sunday) to 6 (Saturday)';
+    }
+    if (typeof time !== 'string' || !TIME_PATTERN.test(time)) {
+      return 'Each slot needs a time as HH:mm';
+    }
+    slots.push({ weekdays: [...new Set(weekdays as number[])].sort((a, b) => a - b), time });
+  }
+
+  return slots;
+}
@@ -0,0 +1,171 @@
+// Recurring schedules for posts, modelled on iCalendar RRULEs: daily, weekly on
+// given weekdays or monthly, every `interval` periods, ending at `until` or
+// after `count` occurrences. Occurrences start at the post's scheduled_date,
+// which also sets their time of day in the post's time zone, across DST changes.
+
+import { fromDate, getDayOfWeek, ZonedDateTime } from '@internationalized/date';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly'];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Every n days/weeks/months; 1 when missing
+  interval?: number;
+  // Weekly only: 0 (Sunday) to 6. Defaults to the weekday of the first occurrence.
+  weekdays?: number[];
+  // Last moment an occurrence may fall on
+  until?: Date;
+  // Total number of occurrences, skipped ones included (like RRULE COUNT)
+  count?: number;
+  // Occurrences skipped individually (like EXDATE)
+  exceptions?: Date[];
+}
+
+// Upper bound on periods walked through, so a malformed rule can't loop forever
+const MAX_PERIODS = 10000;
+
+function addMonths(date: ZonedDateTime, months: number): ZonedDateTime | null {
+  const month = date.set({ day: 1 }).add({ months });
+  // Months without the day (e.g. the 31st) have no occurrence, as with RRULEs
+  if (date.day > month.calendar.getDaysInMonth(month)) return null;
+  return month.set({ day: date.day });
+}
+
+// Occurrences within one period, in order. Days, weeks and months are counted
+// on the zone's calendar, so occurrences keep their wall-clock time.
+function occurrencesInPeriod(start: ZonedDateTime, rule: RecurrenceRule, period: number): Date[] {
+  const interval = rule.interval ?? 1;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return [start.add({ days: period * interval }).toDate()];
+    case 'weekly': {
+      // en-US weeks start on Sunday, matching weekday 0
+      const startWeekday = getDayOfWeek(start, 'en-US');
+      const weekdays = [...new Set(rule.weekdays?.length ? rule.weekdays : [startWeekday])].sort((a, b) => a - b);
+      const weekStart = start.subtract({ days: startWeekday }).add({ weeks: period * interval });
+      return weekdays
+        .map(weekday => weekStart.add({ days: weekday }))
+        .filter(date => date.compare(start) >= 0)
+        .map(date => date.toDate());
+    }
+    case 'monthly': {
+      const date = addMonths(start, period * interval);
+      return date ? [date.toDate()] : [];
+    }
+  }
+}
+
+/**
+ * Yields every occurrence of a schedule in order, starting with `start`, until
+ * the rule's end. Skipped occurrences are included; see isSkippedOccurrence.
+ * Schedules without an end go on forever, so stop iterating when done.
+ */
+export function* iterateOccurrences(start: Date, timeZone: string, rule: RecurrenceRule): Generator<Date> {
+  const zonedStart = fromDate(start, timeZone);
+  let yielded = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const date of occurrencesInPeriod(zonedStart, rule, period)) {
+      if (rule.until && date > rule.until) return;
+      if (rule.count !== undefined && yielded >= rule.count) return;
+      yielded++;
+      yield date;
+    }
+  }
+}
+
+export function isSkippedOccurrence(rule: RecurrenceRule, date: Date): boolean {
+  return rule.exceptions?.some(exception => exception.getTime() === date.getTime()) ?? false;
+}
+
+/**
+ * Returns up to `limit` occurrences after `after` (exclusive) and up to `until`
+ * (inclusive), skipped ones included.
+ */
+export function getOccurrences(
+  start: Date,
+  timeZone: string,
+  rule: RecurrenceRule,
+  options: { after?: Date; until?: Date; limit?: number } = {}
+): Date[] {
+  const occurrences: Date[] = [];
+
+  for (const date of iterateOccurrences(start, timeZone, rule)) {
+    if (options.until && date > options.until) break;
+    if (options.limit !== undefined && occurrences.length >= options.limit) break;
+    if (!options.after || date > options.after) occurrences.push(date);
+  }
+
+  return occurrences;
+}
+
+export function isOccurrence(start: Date, timeZone: string, rule: RecurrenceRule, date: Date): boolean {
+  return getOccurrences(start, timeZone, rule, { until: date }).some(occurrence => occurrence.getTime() === date.getTime());
+}
+
+/**
+ * Checks a recurrence rule sent by a client. Returns null for "doesn't repeat"
+ * (null or missing) and a message for invalid rules. Exceptions aren't accepted
+ * here; occurrences are skipped one at a time.
+ */
+export function parseRecurrenceRule(input: unknown): RecurrenceRule | null | string {
+  if (input === null || input === undefined) return null;
+  if (typeof input !== 'object') return 'recurrence must be an object';
+
+  const { frequency, interval, weekdays, until, count } = input as Record<string, unknown>;
+  if (!RECURRENCE_FREQUENCIES.includes(frequency as RecurrenceFrequency)) {
+    return `recurrence.frequency must be one of: ${RECURRENCE_FREQUENCIES.join(', ')}`;
+  }
+
+  const rule: RecurrenceRule = { frequency: frequency as RecurrenceFrequency };
+
+  if (interval !== undefined && interval !== null) {
+    if (!Number.isInteger(interval) || (interval as number) < 1) return 'recurrence.interval must be a positive whole number';
+    rule.interval = interval as number;
+  }
+
+  if (weekdays !== undefined && weekdays !== null) {
+    if (frequency !== 'weekly') return 'recurrence.weekdays only applies to weekly schedules';
+    if (!Array.isArray(weekdays) || weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return 'recurrence.weekdays must be a list of weekdays from 0 (Sunday) to 6 (Saturday)';
+    }
+    if (weekdays.length > 0) rule.weekdays = [...new Set(weekdays as number[])].sort((a, b) => a - b);
+  }
+
+  if (until !== undefined && until !== null) {
+    const untilDate = new Date(until as string);
+    if (isNaN(untilDate.getTime())) return 'recurrence.until must be a date';
+    rule.until = untilDate;
+  }
+
+  if (count !== undefined && count !== null) {
+    if (!Number.isInteger(count) || (count as number) < 1) return 'recurrence.count must be a positive whole number';
+    rule.count = count as number;
+  }
+
+  return rule;
+}
+
+/**
+ * Describes a schedule for people, e.g. "Every 2 weeks on Tue, Thu, 10 times".
+ */
+export function describeRecurrence(rule: Pick<RecurrenceRule, 'frequency' | 'interval' | 'weekdays' | 'count'> & { until?: Date | string }): string {
+  const interval = rule.interval ?? 1;
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+  let description = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    description += ` on ${rule.weekdays.map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (rule.count) description += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  if (rule.until) {
+    description += `, until ${new Date(rule.until).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  }
+
+  return description;
+}
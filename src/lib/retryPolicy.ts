@@ -0,0 +1,42 @@
+// Retry policy for failed platform publishes: exponential backoff with jitter,
+// capped at a maximum delay, for at most maxAttempts attempts per platform.
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Fraction of the delay that is randomised, e.g. 0.2 spreads retries over ±20%
+  jitter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: Number(process.env.PUBLISH_MAX_ATTEMPTS || 5),
+  baseDelayMs: Number(process.env.PUBLISH_RETRY_BASE_SECONDS || 60) * 1000,
+  maxDelayMs: Number(process.env.PUBLISH_RETRY_MAX_SECONDS || 6 * 60 * 60) * 1000,
+  jitter: 0.2,
+};
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts:
+ * baseDelay * 2^(attempts - 1), capped at maxDelay, with ±jitter applied.
+ */
+export function computeBackoffDelay(attempts: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY, random: () => number = Math.random): number {
+  const exponential = policy.baseDelayMs * 2 ** Math.max(0, attempts - 1);
+  const capped = Math.min(exponential, policy.maxDelayMs);
+  const jitterFactor = 1 + policy.jitter * (random() * 2 - 1);
+  return Math.round(capped * jitterFactor);
+}
+
+/**
+ * Returns when a failed platform should be retried, or undefined if it should
+ * not be retried because the error is permanent or the attempts are used up.
+ */
+export function getNextAttemptAt(
+  attempts: number,
+  retryable: boolean,
+  now: Date = new Date(),
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Date | undefined {
+  if (!retryable || attempts >= policy.maxAttempts) return undefined;
+  return new Date(now.getTime() + computeBackoffDelay(attempts, policy));
+}
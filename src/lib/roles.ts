@@ -0,0 +1,31 @@
+// User roles, shared by the API and the pages. Each role can do everything the
+// roles before it can:
+//   viewer   - sees posts
+//   author   - creates posts and edits or deletes their own
+//   approver - edits and deletes anyone's posts
+//   admin    - manages users and settings
+
+export type UserRole = 'viewer' | 'author' | 'approver' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'author', 'approver', 'admin'];
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && USER_ROLES.includes(value as UserRole);
+}
+
+/**
+ * Whether a role grants at least the permissions of the required role.
+ */
+export function hasRole(role: UserRole | undefined, required: UserRole): boolean {
+  return role !== undefined && USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+/**
+ * Whether a user may edit or delete a post: approvers and admins may change any
+ * post, authors only the posts they created.
+ */
+export function canModifyPost(user: { id: string; role: UserRole } | null, createdById: string | undefined): boolean {
+  if (!user) return false;
+  if (hasRole(user.role, 'approver')) return true;
+  return hasRole(user.role, 'author') && createdById !== undefined && createdById === user.id;
+}
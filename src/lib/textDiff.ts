@@ -0,0 +1,54 @@
+// Word-level text diff for comparing post revisions.
+
+export interface DiffPart {
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+}
+
+// Words and the whitespace between them, so nothing is lost when joining
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token !== '');
+}
+
+/**
+ * Diffs two texts word by word (longest common subsequence). Joining the equal
+ * and removed parts gives the old text back; the equal and added parts give the
+ * new text. Adjacent parts of the same type are merged.
+ */
+export function diffWords(oldText: string, newText: string): DiffPart[] {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+
+  // lengths[i][j]: length of the common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
@@ -0,0 +1,48 @@
+// Time zones of scheduled posts. A post stores its scheduled_date as a UTC
+// instant together with the IANA zone it was scheduled in; the wall-clock time
+// shown in the composer is always that zone's, so DST changes are handled by
+// @internationalized/date rather than by the browser's own zone.
+
+import { fromDate, parseDateTime, toCalendarDateTime, toZoned } from '@internationalized/date';
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Zones offered in pickers
+export function getTimeZones(): string[] {
+  const timeZones = Intl.supportedValuesOf('timeZone');
+  return timeZones.includes('UTC') ? timeZones : ['UTC', ...timeZones];
+}
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * The wall-clock time of an instant in a zone, as a datetime-local input value
+ * (YYYY-MM-DDTHH:mm).
+ */
+export function toLocalInputValue(date: Date, timeZone: string): string {
+  return toCalendarDateTime(fromDate(date, timeZone)).toString().slice(0, 16);
+}
+
+/**
+ * The instant a wall-clock time stands for in a zone. Times skipped by a DST
+ * change move forward; times that happen twice take the first.
+ */
+export function fromLocalInputValue(value: string, timeZone: string): Date {
+  return toZoned(parseDateTime(value), timeZone, 'compatible').toDate();
+}
+
+// The zone's UTC offset at the given moment, e.g. "GMT+2"
+export function getTimeZoneOffsetLabel(timeZone: string, date: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'shortOffset' }).formatToParts(date);
+  return parts.find(part => part.type === 'timeZoneName')?.value ?? timeZone;
+}
@@ -0,0 +1,90 @@
+// Splits long text into a numbered X (Twitter) thread. Shared by the X adapter
+// and the composer, which previews how many posts a thread will take.
+
+export const TWEET_MAX_LENGTH = 280;
+
+// X counts every link as 23 characters, whatever its real length.
+const URL_WEIGHT = 23;
+const URL_REGEX = /https?:\/\/\S+/g;
+
+/**
+ * Approximates X's weighted character count: links count as 23 and characters
+ * outside the Latin/Greek/Cyrillic-ish ranges (emoji, CJK) count as 2.
+ */
+export function getTweetLength(text: string): number {
+  let length = 0;
+  const withoutUrls = text.replace(URL_REGEX, () => {
+    length += URL_WEIGHT;
+    return '';
+  });
+  for (const char of Array.from(withoutUrls)) {
+    length += (char.codePointAt(0) ?? 0) <= 0x10ff ? 1 : 2;
+  }
+  return length;
+}
+
+function splitLongWord(word: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const char of Array.from(word)) {
+    if (getTweetLength(current + char) > maxLength) {
+      pieces.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// Packs words into chunks, keeping the original whitespace (e.g. line breaks) between words of the same chunk.
+function packWords(text: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  const tokens = text.split(/(\s+)/);
+  let current = '';
+
+  for (let i = 0; i < tokens.length; i += 2) {
+    const word = tokens[i];
+    const separator = i > 0 ? tokens[i - 1] : '';
+    if (!word) continue;
+
+    const candidate = current ? `${current}${separator}${word}` : word;
+    if (getTweetLength(candidate) <= maxLength) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) chunks.push(current);
+    if (getTweetLength(word) <= maxLength) {
+      current = word;
+    } else {
+      const pieces = splitLongWord(word, maxLength);
+      current = pieces.pop() ?? '';
+      chunks.push(...pieces);
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Splits text into tweets of at most maxLength weighted characters.
+ * Text that fits in one tweet is returned as-is; longer text is split on word
+ * boundaries and every tweet gets a " (i/n)" counter.
+ */
+export function splitIntoThread(text: string, maxLength: number = TWEET_MAX_LENGTH): string[] {
+  const trimmed = text.trim();
+  if (getTweetLength(trimmed) <= maxLength) return [trimmed];
+
+  // The counter's width depends on the number of tweets, so re-split until it is stable
+  let total = 2;
+  for (;;) {
+    const suffixLength = ` (${total}/${total})`.length;
+    const chunks = packWords(trimmed, maxLength - suffixLength);
+    if (String(chunks.length).length <= String(total).length) {
+      return chunks.map((chunk, index) => `${chunk} (${index + 1}/${chunks.length})`);
+    }
+    total = chunks.length;
+  }
+}
@@ -0,0 +1,57 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Webhook callbacks are signed with HMAC-SHA256 over "<timestamp>.<raw body>"
+// using a shared secret, and sent as:
+//   x-webhook-timestamp: <unix seconds>
+//   x-webhook-signature: sha256=<hex digest>
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+
+// Requests signed longer ago than this (or this far in the future) are rejected.
+export const WEBHOOK_TOLERANCE_SECONDS = Number(process.env.WEBHOOK_TOLERANCE_SECONDS || 300);
+
+export type WebhookVerificationResult =
+  | { valid: true; signature: string; timestamp: number }
+  | { valid: false; reason: string };
+
+/**
+ * Computes the signature header value for a webhook body.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, rawBody: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Checks the signature and timestamp headers of a webhook request.
+ * Replay protection (rejecting a signature that was already used) is up to the caller.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  rawBody: string,
+  timestampHeader: string | null,
+  signatureHeader: string | null,
+  now: Date = new Date()
+): WebhookVerificationResult {
+  if (!timestampHeader || !signatureHeader) {
+    return { valid: false, reason: 'Missing signature or timestamp header' };
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp)) {
+    return { valid: false, reason: 'Malformed timestamp header' };
+  }
+
+  if (Math.abs(now.getTime() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    return { valid: false, reason: 'Timestamp outside the allowed window' };
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, rawBody));
+  const received = Buffer.from(signatureHeader.trim().toLowerCase());
+
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'Signature mismatch' };
+  }
+
+  return { valid: true, signature: received.toString(), timestamp };
+}
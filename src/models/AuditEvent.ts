@@ -0,0 +1,67 @@
+import { Collection, ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { PostStatus, UserRef } from '@/models/SocialMediaPost';
+
+export type AuditAction =
+  | 'created'
+  | 'updated'
+  | 'status_changed'
+  | 'deleted'
+  | 'webhook_call'
+  | 'publish_attempt';
+
+// What caused the event: a signed-in user, a trigger run or a webhook call
+export type AuditSource = 'user' | 'trigger' | 'webhook';
+
+// One changed field of an edit, with its values before and after
+export interface FieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+// One entry of the append-only audit log. Entries are only ever inserted, and
+// outlive the post they belong to.
+export interface AuditEvent {
+  post_id: ObjectId;
+  action: AuditAction;
+  source: AuditSource;
+  // Set when a user caused the event
+  actor?: UserRef;
+  // 'updated'
+  changes?: FieldChange[];
+  // 'status_changed'
+  from_status?: PostStatus;
+  to_status?: PostStatus;
+  // 'publish_attempt'
+  platform?: string;
+  // 'webhook_call': outgoing calls to the automation webhook, incoming callbacks
+  direction?: 'outgoing' | 'incoming';
+  // 'publish_attempt' and 'webhook_call'
+  success?: boolean;
+  request?: Record<string, unknown>;
+  response?: Record<string, unknown>;
+  // Free text such as a review comment or a failure reason
+  message?: string;
+  created_at: Date;
+}
+
+let indexesReady: Promise<unknown> | undefined;
+
+export async function getAuditEventsCollection(): Promise<Collection<AuditEvent>> {
+  const db = await getDb();
+  const collection = db.collection<AuditEvent>('audit_events');
+
+  if (!indexesReady) {
+    indexesReady = Promise.all([
+      collection.createIndex({ post_id: 1, created_at: -1 }),
+      collection.createIndex({ created_at: -1 }),
+    ]).catch(error => {
+      indexesReady = undefined;
+      throw error;
+    });
+  }
+  await indexesReady;
+
+  return collection;
+}
@@ -0,0 +1,15 @@
+import { Collection } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+
+// A saved LinkedIn person or organization that can be mentioned from the composer.
+export interface LinkedInMention {
+  name: string;
+  urn: string;
+  type: 'person' | 'organization';
+  created_at: Date;
+}
+
+export async function getLinkedInMentionsCollection(): Promise<Collection<LinkedInMention>> {
+  const db = await getDb();
+  return db.collection<LinkedInMention>('linkedin_mentions');
+}
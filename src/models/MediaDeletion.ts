@@ -0,0 +1,32 @@
+import { Collection, ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { MediaKind } from '@/lib/platforms';
+import type { MediaStorageKey } from '@/services/storage';
+
+export type MediaDeletionReason = 'removed_from_post' | 'post_deleted' | 'unreferenced';
+
+// 'scheduled' deletions are carried out once delete_after has passed; until
+// then they can be cancelled to undo the removal.
+export type MediaDeletionStatus = 'scheduled' | 'deleted' | 'cancelled' | 'failed';
+
+// A stored media file queued for deletion from media storage
+export interface MediaDeletion {
+  // Storage the file is kept in; Cloudinary when missing
+  storage?: MediaStorageKey;
+  storage_id: string;
+  url: string;
+  type: MediaKind;
+  reason: MediaDeletionReason;
+  // Post the file was removed from, if any
+  post_id?: ObjectId;
+  status: MediaDeletionStatus;
+  delete_after: Date;
+  created_at: Date;
+  updated_at: Date;
+  error?: string;
+}
+
+export async function getMediaDeletionsCollection(): Promise<Collection<MediaDeletion>> {
+  const db = await getDb();
+  return db.collection<MediaDeletion>('media_deletions');
+}
@@ -0,0 +1,43 @@
+import { Collection, ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { MediaItem, PlatformVariant, SocialMediaPost, UserRef } from '@/models/SocialMediaPost';
+import { RecurrenceRule } from '@/lib/recurrence';
+
+// The parts of a post kept in each revision
+export const REVISION_FIELDS = ['post_text', 'post_media', 'platform_variants', 'platforms', 'scheduled_date', 'timezone', 'recurrence'] as const;
+
+export type RevisionContent = Pick<SocialMediaPost, typeof REVISION_FIELDS[number]>;
+
+// Snapshot of a post's content after a save. Revisions are numbered from 1 per
+// post; a save that doesn't change the content adds no revision.
+export interface PostRevision {
+  post_id: ObjectId;
+  revision: number;
+  post_text: string;
+  post_media?: MediaItem[];
+  platform_variants?: Record<string, PlatformVariant>;
+  platforms: string[];
+  scheduled_date: Date;
+  timezone?: string;
+  recurrence?: RecurrenceRule;
+  // Who saved it; missing for posts saved before accounts existed
+  created_by?: UserRef;
+  created_at: Date;
+}
+
+let indexesReady: Promise<unknown> | undefined;
+
+export async function getPostRevisionsCollection(): Promise<Collection<PostRevision>> {
+  const db = await getDb();
+  const collection = db.collection<PostRevision>('post_revisions');
+
+  if (!indexesReady) {
+    indexesReady = collection.createIndex({ post_id: 1, revision: -1 }, { unique: true }).catch(error => {
+      indexesReady = undefined;
+      throw error;
+    });
+  }
+  await indexesReady;
+
+  return collection;
+}
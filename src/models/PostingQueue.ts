@@ -0,0 +1,39 @@
+import { Collection } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { QueueSlot } from '@/lib/queueSlots';
+
+// The posting queue of one team on one platform: the weekly slots that "Add to
+// queue" fills, in the team's time zone. Queues without a team serve posts that
+// have none.
+export interface PostingQueue {
+  team?: string;
+  // Lowercase platform key
+  platform: string;
+  slots: QueueSlot[];
+  // Move later queued posts up into the slot a post leaves when it is deleted or rescheduled
+  shuffle: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+let indexesReady: Promise<unknown> | undefined;
+
+export async function getPostingQueuesCollection(): Promise<Collection<PostingQueue>> {
+  const db = await getDb();
+  const collection = db.collection<PostingQueue>('posting_queues');
+
+  if (!indexesReady) {
+    indexesReady = collection.createIndex({ team: 1, platform: 1 }, { unique: true }).catch(error => {
+      indexesReady = undefined;
+      throw error;
+    });
+  }
+  await indexesReady;
+
+  return collection;
+}
+
+// Matches the documents of a team, or the ones without a team
+export function teamFilter(team?: string): { team: string } | { team: { $exists: false } } {
+  return team ? { team } : { team: { $exists: false } };
+}
@@ -0,0 +1,31 @@
+import { Collection, ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+
+// A signed-in browser. Only a hash of the session token is stored, so a leaked
+// database can't be used to sign in. The TTL index removes expired sessions.
+export interface Session {
+  token_hash: string;
+  user_id: ObjectId;
+  created_at: Date;
+  expires_at: Date;
+}
+
+let indexesReady: Promise<unknown> | undefined;
+
+export async function getSessionsCollection(): Promise<Collection<Session>> {
+  const db = await getDb();
+  const collection = db.collection<Session>('sessions');
+
+  if (!indexesReady) {
+    indexesReady = Promise.all([
+      collection.createIndex({ token_hash: 1 }, { unique: true }),
+      collection.createIndex({ expires_at: 1 }, { expireAfterSeconds: 0 }),
+    ]).catch(error => {
+      indexesReady = undefined;
+      throw error;
+    });
+  }
+  await indexesReady;
+
+  return collection;
+}
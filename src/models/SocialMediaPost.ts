@@ -1,21 +1,382 @@
-import { Collection } from 'mongodb';
+import { Collection, ObjectId } from 'mongodb';
 import { getDb } from '@/lib/mongodb';
+import { MediaKind } from '@/lib/platforms';
+import { detectMediaType } from '@/lib/postValidation';
+import { getCloudinaryPublicId } from '@/lib/cloudinaryUrls';
+import { RecurrenceRule } from '@/lib/recurrence';
+import { getDefaultTimeZone, getTeamTimeZone } from '@/models/TeamSettings';
+
+export type PlatformDeliveryStatus = 'pending' | 'posted' | 'failed';
+
+// Outcome of publishing a post to one platform. Kept per platform so a retry
+// can skip the networks that already went out.
+export interface PlatformResult {
+  status: PlatformDeliveryStatus;
+  link?: string;
+  // Id of the published post on the platform, used to delete it or fetch metrics
+  external_id?: string;
+  error?: string;
+  // Whether the last failure is worth retrying, and when the retry is due.
+  // A failed platform without next_attempt_at is not retried automatically.
+  retryable?: boolean;
+  next_attempt_at?: Date;
+  attempts: number;
+  first_attempt_at?: Date;
+  last_attempt_at?: Date;
+  posted_at?: Date;
+}
+
+// draft -> in_review -> approved (or changes_requested, back to in_review once
+// edited) -> processing -> posted / failed / partial_success. Only approved posts
+// are published. 'pending' is what scheduled posts were before reviews existed;
+// migratePendingPostsToReview() moves them into review.
+export type PostStatus =
+  | 'draft'
+  | 'in_review'
+  | 'changes_requested'
+  | 'approved'
+  | 'pending'
+  | 'processing'
+  | 'posted'
+  | 'failed'
+  | 'partial_success'
+  | 'deleted';
+
+// Statuses of posts that haven't gone out yet
+export const UNPUBLISHED_STATUSES: PostStatus[] = ['draft', 'in_review', 'changes_requested', 'approved', 'pending'];
+
+// A time-limited claim on a post by one trigger run, so overlapping runs never
+// publish the same post twice. Expired leases are recovered by the next run.
+export interface PostLease {
+  owner: string;
+  expires_at: Date;
+  // Platforms handed to an external service under this lease; its callback reports on these
+  platforms?: string[];
+}
+
+// Per-platform override of the post content. Anything left out is inherited
+// from the main post; post_media is a selection of the post's media by URL.
+export interface PlatformVariant {
+  post_text?: string;
+  post_media?: string[];
+}
+
+// A cropped rendition of a media item for one platform
+export interface MediaCrop {
+  aspect_ratio: string;
+  url: string;
+}
+
+export interface MediaItem {
+  url: string;
+  // Id of the file in its media storage (see src/services/storage), e.g. the Cloudinary public id
+  storage_id?: string;
+  type: MediaKind;
+  // Found by inspecting the upload (src/lib/mediaInspection.ts)
+  mime_type?: string;
+  size?: number;
+  width?: number;
+  height?: number;
+  duration?: number;
+  alt_text?: string;
+  // Shown by platforms that support them (LinkedIn)
+  title?: string;
+  description?: string;
+  // Keyed by lowercase platform key; platforms without a crop get the original
+  crops?: Record<string, MediaCrop>;
+}
+
+// Who created or last changed a post; the name is kept so it survives renames
+// and deleted accounts
+export interface UserRef {
+  user_id: ObjectId;
+  name: string;
+}
+
+export type ReviewAction = 'submitted' | 'approved' | 'changes_requested';
+
+// One step of a post's review, oldest first in review_history
+export interface ReviewEvent {
+  action: ReviewAction;
+  user: UserRef;
+  comment?: string;
+  created_at: Date;
+}
 
 export interface SocialMediaPost {
   post_text: string;
-  post_media?: string[];
+  post_media?: MediaItem[];
+  // Keyed by lowercase platform key
+  platform_variants?: Record<string, PlatformVariant>;
+  // The UTC instant; its wall-clock time is meant in `timezone`
   scheduled_date: Date;
+  // IANA zone the post was scheduled in, e.g. "Europe/Berlin". Defaults to the
+  // team's; posts from before time zones get it from migrateTimeZones().
+  timezone?: string;
   team?: string;
   post_notes?: string;
-  status: 'draft' | 'pending' | 'posted' | 'failed' | 'partial_success' | 'deleted';
+  status: PostStatus;
+  lease?: PostLease;
+  // How many times an expired lease has put this post back in the queue
+  lease_recoveries?: number;
   post_links?: Record<string, string>;
+  platform_results?: Record<string, PlatformResult>;
   platforms: string[];
   created_at: Date;
   updated_at: Date;
+  created_by?: UserRef;
+  updated_by?: UserRef;
+  review_history?: ReviewEvent[];
+  // Set while the post is approved; cleared when it goes back to review
+  approved_by?: UserRef;
+  approved_at?: Date;
   failure_reason?: string;
+  // Earliest retry due across the failed platforms; picked up by /api/trigger-posts
+  next_attempt_at?: Date;
+  // Set while the post holds a slot it was given by its team's posting queue;
+  // cleared when it is rescheduled by hand. See src/services/queueService.ts.
+  queued?: boolean;
+  // Set on a series: the post is a template that is never published itself.
+  // /api/trigger-posts creates a post for each occurrence once the series is approved.
+  recurrence?: RecurrenceRule;
+  // Series only: occurrences up to this moment have been created (or passed over)
+  occurrences_created_until?: Date;
+  // Set on the post of one occurrence of a series
+  series_id?: ObjectId;
+  occurrence_date?: Date;
 }
 
+let indexesReady: Promise<unknown> | undefined;
+
 export async function getSocialMediaPostsCollection(): Promise<Collection<SocialMediaPost>> {
   const db = await getDb();
-  return db.collection<SocialMediaPost>('social_media_posts');
+  const collection = db.collection<SocialMediaPost>('social_media_posts');
+
+  // Each occurrence of a series gets at most one post, and each queue slot of a
+  // team and platform holds at most one queued post
+  if (!indexesReady) {
+    indexesReady = Promise.all([
+      collection.createIndex(
+        { series_id: 1, occurrence_date: 1 },
+        { unique: true, partialFilterExpression: { series_id: { $exists: true } } }
+      ),
+      collection.createIndex(
+        { team: 1, platforms: 1, scheduled_date: 1 },
+        { unique: true, partialFilterExpression: { queued: true } }
+      ),
+    ]).catch(error => {
+      indexesReady = undefined;
+      throw error;
+    });
+  }
+  await indexesReady;
+
+  return collection;
+}
+
+/**
+ * Posts created before media items existed store plain URLs; this turns either
+ * shape into media items.
+ */
+export function normalizeMediaItems(media: (MediaItem | string)[] | undefined): MediaItem[] {
+  return (media ?? []).map(item => typeof item === 'string' ? { url: item, type: detectMediaType(item) } : item);
+}
+
+// Media fields written before media items existed
+interface LegacyMediaFields {
+  post_media?: (MediaItem | string)[];
+  post_media_details?: { url: string; title?: string; description?: string }[];
+  post_media_metadata?: ({ url: string } & Omit<MediaItem, 'url'>)[];
+}
+
+/**
+ * Rewrites posts that store post_media as plain URLs, or keep titles and
+ * inspection results in the separate post_media_details / post_media_metadata
+ * arrays, into media items. Safe to run more than once; returns the number of
+ * posts changed.
+ */
+export async function migrateLegacyPostMedia(): Promise<number> {
+  const db = await getDb();
+  const collection = db.collection<LegacyMediaFields>('social_media_posts');
+  const legacyPosts = collection.find({
+    $or: [
+      { 'post_media.0': { $type: 'string' } },
+      { post_media_details: { $exists: true } },
+      { post_media_metadata: { $exists: true } },
+    ],
+  });
+
+  let migrated = 0;
+  for await (const post of legacyPosts) {
+    const media = normalizeMediaItems(post.post_media).map(item => {
+      const metadata = post.post_media_metadata?.find(entry => entry.url === item.url);
+      const details = post.post_media_details?.find(entry => entry.url === item.url);
+      const migratedItem: MediaItem = { ...metadata, ...item };
+
+      const storageId = item.storage_id ?? getCloudinaryPublicId(item.url);
+      if (storageId) migratedItem.storage_id = storageId;
+      if (details?.title) migratedItem.title = details.title;
+      if (details?.description) migratedItem.description = details.description;
+      return migratedItem;
+    });
+
+    await collection.updateOne(
+      { _id: post._id },
+      { $set: { post_media: media }, $unset: { post_media_details: '', post_media_metadata: '' } }
+    );
+    migrated++;
+  }
+
+  return migrated;
+}
+
+/**
+ * Gives posts from before time zones the zone of their team (or the default
+ * zone), so their schedule reads the same to everyone. scheduled_date already
+ * is a UTC instant and stays as it is. Returns the number of posts updated.
+ */
+export async function migrateTimeZones(): Promise<number> {
+  const postsCollection = await getSocialMediaPostsCollection();
+  const teams = await postsCollection.distinct('team', { timezone: { $exists: false } });
+  let migrated = 0;
+
+  for (const team of teams) {
+    const result = await postsCollection.updateMany(
+      { team, timezone: { $exists: false } },
+      { $set: { timezone: await getTeamTimeZone(team) } }
+    );
+    migrated += result.modifiedCount;
+  }
+
+  const result = await postsCollection.updateMany({ timezone: { $exists: false } }, { $set: { timezone: getDefaultTimeZone() } });
+  return migrated + result.modifiedCount;
+}
+
+/**
+ * Puts posts that were scheduled before reviews existed ('pending') into review,
+ * since only approved posts are published. Returns the number of posts moved.
+ */
+export async function migratePendingPostsToReview(): Promise<number> {
+  const postsCollection = await getSocialMediaPostsCollection();
+  const result = await postsCollection.updateMany(
+    { status: 'pending' },
+    { $set: { status: 'in_review', updated_at: new Date() } }
+  );
+  return result.modifiedCount;
+}
+
+/**
+ * Returns the text and media to publish on one platform: the platform's variant
+ * where it has one, the main post otherwise. Media items come back with the
+ * platform's crop as their URL. Variant media that has since been removed from
+ * the post is dropped.
+ */
+export function getPlatformContent(
+  post: Pick<SocialMediaPost, 'post_text' | 'post_media' | 'platform_variants'>,
+  platform: string
+): { post_text: string; post_media: MediaItem[] } {
+  const key = platform.toLowerCase();
+  const variant = post.platform_variants?.[key];
+  const media = normalizeMediaItems(post.post_media);
+  const selection = variant?.post_media;
+
+  return {
+    post_text: variant?.post_text ?? post.post_text,
+    post_media: (selection ? media.filter(item => selection.includes(item.url)) : media)
+      .map(item => item.crops?.[key] ? { ...item, url: item.crops[key].url } : item),
+  };
+}
+
+/**
+ * Returns the platforms that should be published in this run.
+ * A first run publishes every platform that has not been posted yet. A retry run
+ * (the post has next_attempt_at) only publishes the failed platforms whose own
+ * retry is due, so permanent failures and platforms that went out are left alone.
+ */
+export function getPlatformsDueForPublish(
+  post: Pick<SocialMediaPost, 'platforms' | 'platform_results' | 'next_attempt_at'>,
+  now: Date = new Date()
+): string[] {
+  return post.platforms.filter(platform => {
+    const result = post.platform_results?.[platform.toLowerCase()];
+    if (result?.status === 'posted') return false;
+    if (!post.next_attempt_at || result?.status !== 'failed') return true;
+    return result.next_attempt_at !== undefined && result.next_attempt_at <= now;
+  });
+}
+
+/**
+ * Returns the earliest scheduled retry across all platforms, if any.
+ */
+export function getNextRetryAt(platformResults: Record<string, PlatformResult>): Date | undefined {
+  return Object.values(platformResults)
+    .filter(result => result.status === 'failed' && result.next_attempt_at)
+    .map(result => result.next_attempt_at as Date)
+    .sort((a, b) => a.getTime() - b.getTime())[0];
+}
+
+/**
+ * Derives the post-wide status from the per-platform results.
+ * All platforms posted -> 'posted', none posted -> 'failed', otherwise 'partial_success'.
+ */
+export function derivePostStatus(
+  platforms: string[],
+  platformResults: Record<string, PlatformResult>
+): 'posted' | 'failed' | 'partial_success' {
+  const postedCount = platforms.filter(platform => platformResults[platform.toLowerCase()]?.status === 'posted').length;
+
+  if (postedCount === platforms.length) return 'posted';
+  if (postedCount === 0) return 'failed';
+  return 'partial_success';
+}
+
+/**
+ * Builds the post_links map from the per-platform results.
+ */
+export function collectPostLinks(platformResults: Record<string, PlatformResult>): Record<string, string> {
+  const links: Record<string, string> = {};
+  for (const [platform, result] of Object.entries(platformResults)) {
+    if (result.link) links[platform] = result.link;
+  }
+  return links;
+}
+
+/**
+ * Joins the errors of every failed platform into a single failure_reason string.
+ */
+export function summarizeFailures(platformResults: Record<string, PlatformResult>): string | undefined {
+  const failures = Object.entries(platformResults)
+    .filter(([, result]) => result.status === 'failed' && result.error)
+    .map(([platform, result]) => `${platform}: ${result.error}`);
+
+  return failures.length > 0 ? failures.join('; ') : undefined;
+}
+
+/**
+ * Records a single publish attempt for a platform on top of its previous result.
+ */
+export function recordPlatformAttempt(
+  previous: PlatformResult | undefined,
+  outcome: { success: boolean; id?: string; link?: string; error?: string; retryable?: boolean; next_attempt_at?: Date },
+  attemptedAt: Date = new Date()
+): PlatformResult {
+  const result: PlatformResult = {
+    status: outcome.success ? 'posted' : 'failed',
+    attempts: (previous?.attempts ?? 0) + 1,
+    first_attempt_at: previous?.first_attempt_at ?? attemptedAt,
+    last_attempt_at: attemptedAt,
+  };
+
+  const link = outcome.success ? outcome.link : previous?.link;
+  if (link) result.link = link;
+  const externalId = outcome.success ? outcome.id : previous?.external_id;
+  if (externalId) result.external_id = externalId;
+  if (!outcome.success && outcome.error) result.error = outcome.error;
+  if (!outcome.success) result.retryable = outcome.retryable ?? false;
+  if (!outcome.success && outcome.next_attempt_at) result.next_attempt_at = outcome.next_attempt_at;
+
+  const postedAt = outcome.success ? attemptedAt : previous?.posted_at;
+  if (postedAt) result.posted_at = postedAt;
+
+  return result;
 }
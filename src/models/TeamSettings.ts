@@ -0,0 +1,41 @@
+import { Collection, ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+
+export type DispatchMode = 'direct' | 'webhook';
+
+// Per-team configuration. Anything left unset falls back to the global default
+// from the environment.
+export interface TeamSettings {
+  team: string;
+  dispatch_mode?: DispatchMode;
+  // Users who review this team's posts. Without any, every approver can.
+  approver_ids?: ObjectId[];
+  // IANA zone new posts of the team are scheduled in
+  timezone?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export async function getTeamSettingsCollection(): Promise<Collection<TeamSettings>> {
+  const db = await getDb();
+  return db.collection<TeamSettings>('team_settings');
+}
+
+// Zone of posts whose team has none set; DEFAULT_TIMEZONE or UTC
+export function getDefaultTimeZone(): string {
+  return process.env.DEFAULT_TIMEZONE || 'UTC';
+}
+
+/**
+ * Returns the settings of a team, or null if the team has none (or no team was given).
+ */
+export async function getTeamSettings(team?: string): Promise<TeamSettings | null> {
+  if (!team) return null;
+  const teamSettingsCollection = await getTeamSettingsCollection();
+  return teamSettingsCollection.findOne({ team });
+}
+
+export async function getTeamTimeZone(team?: string): Promise<string> {
+  const settings = await getTeamSettings(team);
+  return settings?.timezone ?? getDefaultTimeZone();
+}
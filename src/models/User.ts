@@ -0,0 +1,62 @@
+import { Collection, WithId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { UserRole } from '@/lib/roles';
+
+export interface User {
+  // Stored lowercase; unique
+  email: string;
+  name: string;
+  role: UserRole;
+  // See src/lib/passwords.ts
+  password_hash: string;
+  // Disabled users can't sign in and their sessions stop working
+  disabled?: boolean;
+  // IANA zone the user reads dates in; the browser's when unset
+  timezone?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A user as the API returns it, without the password hash
+export interface PublicUser {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  disabled: boolean;
+  timezone?: string;
+  created_at: string;
+}
+
+let indexesReady: Promise<unknown> | undefined;
+
+export async function getUsersCollection(): Promise<Collection<User>> {
+  const db = await getDb();
+  const collection = db.collection<User>('users');
+
+  if (!indexesReady) {
+    indexesReady = collection.createIndex({ email: 1 }, { unique: true }).catch(error => {
+      indexesReady = undefined;
+      throw error;
+    });
+  }
+  await indexesReady;
+
+  return collection;
+}
+
+export function toPublicUser(user: WithId<User>): PublicUser {
+  return {
+    id: user._id.toString(),
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    disabled: user.disabled === true,
+    timezone: user.timezone,
+    created_at: user.created_at.toISOString(),
+  };
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
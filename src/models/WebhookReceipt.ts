@@ -0,0 +1,50 @@
+import { Collection, MongoServerError } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+
+// One document per accepted signed webhook call. The unique signature index
+// rejects replays; the TTL index removes receipts once their signature could no
+// longer pass the timestamp check anyway.
+export interface WebhookReceipt {
+  signature: string;
+  source: string;
+  received_at: Date;
+  expires_at: Date;
+}
+
+let indexesReady: Promise<unknown> | undefined;
+
+export async function getWebhookReceiptsCollection(): Promise<Collection<WebhookReceipt>> {
+  const db = await getDb();
+  const collection = db.collection<WebhookReceipt>('webhook_receipts');
+
+  if (!indexesReady) {
+    indexesReady = Promise.all([
+      collection.createIndex({ signature: 1 }, { unique: true }),
+      collection.createIndex({ expires_at: 1 }, { expireAfterSeconds: 0 }),
+    ]).catch(error => {
+      indexesReady = undefined;
+      throw error;
+    });
+  }
+  await indexesReady;
+
+  return collection;
+}
+
+/**
+ * Stores the signature of an accepted webhook call.
+ * Returns false if the same signature was seen before, i.e. the call is a replay.
+ */
+export async function recordWebhookReceipt(source: string, signature: string, expiresAt: Date): Promise<boolean> {
+  const receipts = await getWebhookReceiptsCollection();
+
+  try {
+    await receipts.insertOne({ signature, source, received_at: new Date(), expires_at: expiresAt });
+    return true;
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === 11000) {
+      return false;
+    }
+    throw error;
+  }
+}
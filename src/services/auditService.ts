@@ -0,0 +1,128 @@
+import { isDeepStrictEqual } from 'util';
+import { ObjectId, WithId } from 'mongodb';
+import { AuditEvent, AuditSource, FieldChange, getAuditEventsCollection } from '@/models/AuditEvent';
+import { PostStatus, SocialMediaPost } from '@/models/SocialMediaPost';
+import { User } from '@/models/User';
+import { toUserRef } from '@/lib/auth';
+
+// Fields left out of edit diffs: bookkeeping that changes on every write, and
+// fields whose changes are recorded by their own events (status, publishing, reviews)
+const UNDIFFED_FIELDS = new Set([
+  '_id',
+  'status',
+  'created_at',
+  'updated_at',
+  'created_by',
+  'updated_by',
+  'review_history',
+  'approved_by',
+  'approved_at',
+  'lease',
+  'lease_recoveries',
+  'platform_results',
+  'post_links',
+  'failure_reason',
+  'next_attempt_at',
+]);
+
+// Longest string kept in request/response summaries
+const MAX_SUMMARY_TEXT_LENGTH = 500;
+
+type NewAuditEvent = Omit<AuditEvent, 'created_at'>;
+
+/**
+ * Shortens a string for a request/response summary.
+ */
+export function summarizeText(text: string): string {
+  return text.length > MAX_SUMMARY_TEXT_LENGTH ? `${text.slice(0, MAX_SUMMARY_TEXT_LENGTH)}…` : text;
+}
+
+/**
+ * Appends events to the audit log. The audited change has already been made by
+ * the time this runs, so a failure to write the log is reported but not thrown.
+ */
+export async function recordAuditEvents(events: NewAuditEvent[], createdAt: Date = new Date()): Promise<void> {
+  if (events.length === 0) return;
+
+  try {
+    const auditEventsCollection = await getAuditEventsCollection();
+    // Summaries are built from optional fields; leave the missing ones out
+    await auditEventsCollection.insertMany(
+      events.map(event => ({ ...event, created_at: createdAt })),
+      { ignoreUndefined: true }
+    );
+  } catch (error) {
+    console.error(`Failed to record ${events.length} audit events:`, error);
+  }
+}
+
+export async function recordAuditEvent(event: NewAuditEvent): Promise<void> {
+  await recordAuditEvents([event]);
+}
+
+/**
+ * Lists the fields whose values differ between two versions of a post.
+ */
+export function diffPostFields(before: SocialMediaPost, after: SocialMediaPost): FieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: FieldChange[] = [];
+
+  for (const field of fields) {
+    if (UNDIFFED_FIELDS.has(field)) continue;
+    const from = before[field as keyof SocialMediaPost];
+    const to = after[field as keyof SocialMediaPost];
+    if (!isDeepStrictEqual(from, to)) changes.push({ field, from, to });
+  }
+
+  return changes;
+}
+
+export async function recordPostCreated(post: WithId<SocialMediaPost>, user: WithId<User>): Promise<void> {
+  await recordAuditEvent({ post_id: post._id, action: 'created', source: 'user', actor: toUserRef(user), to_status: post.status });
+}
+
+/**
+ * Records an edit as a field diff, plus a status transition if the status changed.
+ */
+export async function recordPostUpdated(
+  before: WithId<SocialMediaPost>,
+  after: WithId<SocialMediaPost>,
+  user: WithId<User>
+): Promise<void> {
+  const actor = toUserRef(user);
+  const events: NewAuditEvent[] = [];
+
+  const changes = diffPostFields(before, after);
+  if (changes.length > 0) {
+    events.push({ post_id: after._id, action: 'updated', source: 'user', actor, changes });
+  }
+  if (before.status !== after.status) {
+    events.push({ post_id: after._id, action: 'status_changed', source: 'user', actor, from_status: before.status, to_status: after.status });
+  }
+
+  await recordAuditEvents(events);
+}
+
+export async function recordPostDeleted(post: WithId<SocialMediaPost>, user: WithId<User>): Promise<void> {
+  await recordAuditEvent({
+    post_id: post._id,
+    action: 'deleted',
+    source: 'user',
+    actor: toUserRef(user),
+    from_status: post.status,
+    message: summarizeText(post.post_text),
+  });
+}
+
+export async function recordStatusChange(
+  postId: ObjectId,
+  from: PostStatus | undefined,
+  to: PostStatus,
+  details: { source: AuditSource; user?: WithId<User>; message?: string }
+): Promise<void> {
+  const event: NewAuditEvent = { post_id: postId, action: 'status_changed', source: details.source, to_status: to };
+  if (from) event.from_status = from;
+  if (details.user) event.actor = toUserRef(details.user);
+  if (details.message) event.message = details.message;
+  await recordAuditEvent(event);
+}
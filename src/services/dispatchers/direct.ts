@@ -0,0 +1,29 @@
+import { postToSocialMedia } from '@/services/socialMediaService';
+import { applyPlatformResults } from '@/services/publishResultService';
+import { PostDispatcher } from './types';
+
+// Publishes in-process through the platform adapters.
+export const directDispatcher: PostDispatcher = {
+  mode: 'direct',
+
+  async dispatch(post, leaseOwner) {
+    const result = await postToSocialMedia(post);
+    const status = await applyPlatformResults(post._id, post.platforms, result.platform_results ?? {}, 'trigger', { leaseOwner });
+
+    // The publish outlived the lease and another run may have claimed the post
+    // since; the post is left to that run
+    if (!status) {
+      return {
+        state: 'lease_lost',
+        status: 'processing',
+        detail: 'Processing lease was lost while the post was being published; its results were not saved.',
+      };
+    }
+
+    return {
+      state: 'published',
+      status,
+      detail: result.error ? `Published with errors: ${result.error}` : 'Published to all platforms.',
+    };
+  },
+};
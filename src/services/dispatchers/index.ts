@@ -0,0 +1,27 @@
+import { DispatchMode, getTeamSettings } from '@/models/TeamSettings';
+import { PostDispatcher } from './types';
+import { directDispatcher } from './direct';
+import { webhookDispatcher } from './webhook';
+
+export type { PostDispatcher, DispatchOutcome } from './types';
+
+const dispatchers: Record<DispatchMode, PostDispatcher> = {
+  direct: directDispatcher,
+  webhook: webhookDispatcher,
+};
+
+/**
+ * Global dispatch mode from POST_DISPATCH_MODE. Defaults to the Make.com webhook.
+ */
+export function getDefaultDispatchMode(): DispatchMode {
+  return process.env.POST_DISPATCH_MODE === 'direct' ? 'direct' : 'webhook';
+}
+
+/**
+ * Picks the dispatcher for a post: the team's dispatch_mode if it has one,
+ * otherwise the global default.
+ */
+export async function getDispatcherForTeam(team?: string): Promise<PostDispatcher> {
+  const teamSettings = await getTeamSettings(team);
+  return dispatchers[teamSettings?.dispatch_mode ?? getDefaultDispatchMode()];
+}
@@ -0,0 +1,21 @@
+import { WithId } from 'mongodb';
+import { SocialMediaPost, PostStatus } from '@/models/SocialMediaPost';
+import { DispatchMode } from '@/models/TeamSettings';
+
+export interface DispatchOutcome {
+  // 'published' when the final status is known, 'handed_off' when an external
+  // service will report the result later, 'lease_lost' when the run no longer
+  // held the post by the time its results came in
+  state: 'published' | 'handed_off' | 'lease_lost';
+  status: PostStatus;
+  detail: string;
+}
+
+/**
+ * Sends a claimed post on its way. Dispatchers throw if the post could not be
+ * dispatched at all; per-platform failures are part of the outcome instead.
+ */
+export interface PostDispatcher {
+  mode: DispatchMode;
+  dispatch(post: WithId<SocialMediaPost>, leaseOwner: string): Promise<DispatchOutcome>;
+}
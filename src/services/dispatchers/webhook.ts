@@ -0,0 +1,84 @@
+import { getPlatformContent, getPlatformsDueForPublish, normalizeMediaItems } from '@/models/SocialMediaPost';
+import { extendLease } from '@/services/postClaimService';
+import { recordAuditEvent, summarizeText } from '@/services/auditService';
+import { httpError, PlatformError } from '@/services/platforms/errors';
+import { PostDispatcher } from './types';
+
+// How long Make.com has to call the cleanup webhook before the post is recovered.
+const MAKE_CALLBACK_TIMEOUT_MS = Number(process.env.MAKE_CALLBACK_TIMEOUT_MINUTES || 60) * 60 * 1000;
+
+// Forwards the post to an external automation webhook (Make.com), which reports
+// the per-platform results back through /api/posts/cleanup.
+export const webhookDispatcher: PostDispatcher = {
+  mode: 'webhook',
+
+  async dispatch(post, leaseOwner) {
+    const makeWebhookUrl = process.env.MAKE_WEBHOOK_URL;
+    const makeApiKey = process.env.MAKE_API_KEY;
+
+    // Ensure webhook URL and API key are configured in your environment variables
+    if (!makeWebhookUrl || !makeApiKey) {
+      console.error('MAKE_WEBHOOK_URL or MAKE_API_KEY environment variable is not set.');
+      throw new PlatformError('Server configuration error: Webhook URL or API Key is missing.', { retryable: false });
+    }
+
+    // 1. Prepare the full post payload for Make.com.
+    // This removes the need for Make.com to query your database.
+    // On a retry only the failed platforms that are due are sent
+    const platforms = getPlatformsDueForPublish(post);
+    const postPayload = {
+      post_id: post._id.toString(),
+      post_text: post.post_text,
+      post_media: normalizeMediaItems(post.post_media).map(item => item.url),
+      post_date: post.scheduled_date,
+      post_status: post.status,
+      platforms,
+      // Text and media items to use on each platform, with variants and crops applied
+      platform_content: Object.fromEntries(platforms.map(platform => [platform, getPlatformContent(post, platform)])),
+    };
+
+    // 2. Trigger the Make.com webhook with the full post data
+    const auditedRequest = { url: new URL(makeWebhookUrl).host, platforms, post_status: post.status };
+    let response: Response;
+    try {
+      response = await fetch(makeWebhookUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-make-apikey': makeApiKey,
+        },
+        body: JSON.stringify(postPayload),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await recordAuditEvent({ post_id: post._id, action: 'webhook_call', source: 'trigger', direction: 'outgoing', success: false, request: auditedRequest, message });
+      throw error;
+    }
+
+    const responseBody = await response.text();
+    await recordAuditEvent({
+      post_id: post._id,
+      action: 'webhook_call',
+      source: 'trigger',
+      direction: 'outgoing',
+      success: response.ok,
+      request: auditedRequest,
+      response: { status: response.status, body: summarizeText(responseBody) },
+    });
+
+    if (!response.ok) {
+      console.error(`Make.com webhook returned status ${response.status}: ${responseBody}`);
+      throw httpError(`Make.com webhook returned status ${response.status}`, response.status);
+    }
+
+    // 3. Keep the post 'processing' until Make.com reports back.
+    // The final status ('posted' or 'failed') will be set by the cleanup endpoint.
+    await extendLease(post._id, leaseOwner, MAKE_CALLBACK_TIMEOUT_MS, platforms);
+
+    return {
+      state: 'handed_off',
+      status: 'processing',
+      detail: 'Webhook triggered successfully with full post data.',
+    };
+  },
+};
@@ -0,0 +1,181 @@
+import { ObjectId } from 'mongodb';
+import { getSocialMediaPostsCollection, MediaItem, normalizeMediaItems } from '@/models/SocialMediaPost';
+import { getMediaDeletionsCollection, MediaDeletion, MediaDeletionReason } from '@/models/MediaDeletion';
+import { getMediaStorage, resolveStoredMedia, StoredAsset } from '@/services/storage';
+
+// How long removed media is kept before it is destroyed, so the removal can be undone.
+const GRACE_PERIOD_MS = Number(process.env.MEDIA_DELETE_GRACE_HOURS || 72) * 60 * 60 * 1000;
+
+export interface PurgeSummary {
+  deleted: number;
+  // Deletions dropped because a post references the file again
+  kept: number;
+  failed: number;
+}
+
+export interface ReconciliationReport {
+  scanned: number;
+  referenced: number;
+  orphaned: StoredAsset[];
+  // Orphans queued for deletion in this run (only when purging)
+  scheduled: number;
+}
+
+/**
+ * Queues stored media files for deletion once the grace period has passed.
+ * Files already queued keep their original schedule. Returns the number of
+ * files newly queued.
+ */
+export async function scheduleMediaDeletion(
+  media: MediaItem[],
+  reason: MediaDeletionReason,
+  options: { postId?: ObjectId; deleteAfter?: Date; now?: Date } = {}
+): Promise<number> {
+  const now = options.now ?? new Date();
+  const deletionsCollection = await getMediaDeletionsCollection();
+  let scheduled = 0;
+
+  for (const item of media) {
+    const stored = resolveStoredMedia(item);
+    // Files that aren't in media storage (e.g. external URLs) have nothing to delete
+    if (!stored) continue;
+
+    const deletion: MediaDeletion = {
+      storage: stored.storage.key,
+      storage_id: stored.storageId,
+      url: item.url,
+      type: item.type,
+      reason,
+      status: 'scheduled',
+      delete_after: options.deleteAfter ?? new Date(now.getTime() + GRACE_PERIOD_MS),
+      created_at: now,
+      updated_at: now,
+    };
+    if (options.postId) deletion.post_id = options.postId;
+
+    const result = await deletionsCollection.updateOne(
+      { storage_id: stored.storageId, status: 'scheduled' },
+      { $setOnInsert: deletion },
+      { upsert: true }
+    );
+    if (result.upsertedCount > 0) scheduled++;
+  }
+
+  return scheduled;
+}
+
+/**
+ * Undoes a removal by cancelling the scheduled deletion of a file.
+ * Returns false if no deletion of that file was scheduled.
+ */
+export async function cancelMediaDeletion(storageId: string, now: Date = new Date()): Promise<boolean> {
+  const deletionsCollection = await getMediaDeletionsCollection();
+  const result = await deletionsCollection.updateOne(
+    { storage_id: storageId, status: 'scheduled' },
+    { $set: { status: 'cancelled', updated_at: now } }
+  );
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Returns the URLs of the given media items whose files have already been
+ * deleted from media storage, e.g. media of an old revision.
+ */
+export async function findDeletedMediaUrls(media: MediaItem[]): Promise<Set<string>> {
+  if (media.length === 0) return new Set();
+
+  const deletionsCollection = await getMediaDeletionsCollection();
+  const deletions = await deletionsCollection
+    .find({ url: { $in: media.map(item => item.url) }, status: 'deleted' }, { projection: { url: 1 } })
+    .toArray();
+  return new Set(deletions.map(deletion => deletion.url));
+}
+
+async function isMediaReferenced(storageId: string, url: string): Promise<boolean> {
+  const postsCollection = await getSocialMediaPostsCollection();
+  const count = await postsCollection.countDocuments(
+    { $or: [{ 'post_media.storage_id': storageId }, { 'post_media.url': url }] },
+    { limit: 1 }
+  );
+  return count > 0;
+}
+
+/**
+ * Destroys every file whose grace period has passed. A file that a post
+ * references again (e.g. the post was restored) is kept instead.
+ */
+export async function purgeDueMediaDeletions(now: Date = new Date()): Promise<PurgeSummary> {
+  const deletionsCollection = await getMediaDeletionsCollection();
+  const due = await deletionsCollection.find({ status: 'scheduled', delete_after: { $lte: now } }).toArray();
+  const summary: PurgeSummary = { deleted: 0, kept: 0, failed: 0 };
+
+  for (const deletion of due) {
+    if (await isMediaReferenced(deletion.storage_id, deletion.url)) {
+      await deletionsCollection.updateOne({ _id: deletion._id }, { $set: { status: 'cancelled', updated_at: new Date() } });
+      summary.kept++;
+      continue;
+    }
+
+    try {
+      await getMediaStorage(deletion.storage ?? 'cloudinary').delete(deletion.storage_id, deletion.type);
+      await deletionsCollection.updateOne({ _id: deletion._id }, { $set: { status: 'deleted', updated_at: new Date() } });
+      summary.deleted++;
+    } catch (error) {
+      console.error(`Error deleting media ${deletion.storage_id}:`, error);
+      await deletionsCollection.updateOne(
+        { _id: deletion._id },
+        { $set: { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error', updated_at: new Date() } }
+      );
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+async function getReferencedStorageIds(): Promise<Set<string>> {
+  const postsCollection = await getSocialMediaPostsCollection();
+  const referenced = new Set<string>();
+
+  const posts = postsCollection.find({ 'post_media.0': { $exists: true } }, { projection: { post_media: 1 } });
+  for await (const post of posts) {
+    for (const item of normalizeMediaItems(post.post_media)) {
+      const stored = resolveStoredMedia(item);
+      if (stored) referenced.add(stored.storageId);
+    }
+  }
+
+  return referenced;
+}
+
+/**
+ * Compares the files in the configured media storage with the media of every post and reports
+ * the files no post references. Files younger than the grace period are left
+ * out, since their post may still be being saved. With purge, the orphans are
+ * queued for immediate deletion (carried out by purgeDueMediaDeletions).
+ */
+export async function reconcileMediaStorage(
+  options: { purge?: boolean; now?: Date } = {}
+): Promise<ReconciliationReport> {
+  const now = options.now ?? new Date();
+  const [assets, referenced] = await Promise.all([getMediaStorage().list(), getReferencedStorageIds()]);
+
+  const orphaned = assets.filter(asset =>
+    !referenced.has(asset.storage_id) && now.getTime() - asset.created_at.getTime() > GRACE_PERIOD_MS
+  );
+
+  const scheduled = options.purge
+    ? await scheduleMediaDeletion(
+        orphaned.map(asset => ({ url: asset.url, storage_id: asset.storage_id, type: asset.type })),
+        'unreferenced',
+        { deleteAfter: now, now }
+      )
+    : 0;
+
+  return {
+    scanned: assets.length,
+    referenced: assets.length - orphaned.length,
+    orphaned,
+    scheduled,
+  };
+}
@@ -0,0 +1,65 @@
+// Errors thrown by platform adapters. `retryable` tells the retry policy whether
+// trying again later can help (rate limits, outages) or not (bad content, auth).
+export class PlatformError extends Error {
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(message: string, options: { retryable: boolean; status?: number }) {
+    super(message);
+    this.name = 'PlatformError';
+    this.retryable = options.retryable;
+    this.status = options.status;
+  }
+}
+
+/**
+ * HTTP statuses worth retrying: timeouts, rate limits and server errors.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 425 || status === 429 || status >= 500;
+}
+
+/**
+ * Creates a PlatformError for a failed HTTP response, classified by its status.
+ */
+export function httpError(message: string, status: number): PlatformError {
+  return new PlatformError(message, { retryable: isRetryableStatus(status), status });
+}
+
+// Error codes of network failures that fetch reports as the cause of its TypeError
+const TRANSIENT_NETWORK_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+  'UND_ERR_SOCKET',
+];
+
+/**
+ * Whether fetch failed at the network level (DNS, connection resets, timeouts).
+ * fetch throws a TypeError whose cause carries the network error code; other
+ * TypeErrors are bugs and not worth retrying.
+ */
+function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof TypeError)) return false;
+  const code = (error.cause as { code?: unknown } | undefined)?.code;
+  return typeof code === 'string' && TRANSIENT_NETWORK_CODES.includes(code);
+}
+
+/**
+ * Decides whether an error thrown while publishing is worth retrying:
+ * PlatformErrors say so themselves, and network failures and aborted
+ * (timed out) requests are treated as transient.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof PlatformError) return error.retryable;
+  return isNetworkError(error) || (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError'));
+}
@@ -0,0 +1,103 @@
+import { SocialMediaPost } from '@/models/SocialMediaPost';
+import { renderMentionsAsPlainText } from '@/lib/linkedinText';
+import { PlatformAdapter, PlatformMediaUpload, PlatformMetrics, PlatformPublishResult, getContentProblems } from './types';
+import { graphRequest, toAbsoluteFacebookUrl } from './graphApi';
+
+// --- IMPORTANT: Get these from your .env.local file ---
+const FACEBOOK_PAGE_ID = process.env.FACEBOOK_PAGE_ID;
+// A long-lived Page access token with pages_manage_posts and pages_read_engagement.
+const FACEBOOK_PAGE_ACCESS_TOKEN = process.env.FACEBOOK_PAGE_ACCESS_TOKEN;
+
+function getFacebookConfig(): { pageId: string; accessToken: string } {
+  if (!FACEBOOK_PAGE_ID || !FACEBOOK_PAGE_ACCESS_TOKEN) {
+    throw new Error('Facebook page ID or page access token not configured');
+  }
+  return { pageId: FACEBOOK_PAGE_ID, accessToken: FACEBOOK_PAGE_ACCESS_TOKEN };
+}
+
+async function getPermalink(objectId: string, accessToken: string): Promise<string> {
+  const result = await graphRequest<{ permalink_url?: string }>('GET', objectId, accessToken, { fields: 'permalink_url' });
+  return result.permalink_url
+    ? toAbsoluteFacebookUrl(result.permalink_url)
+    : `https://www.facebook.com/${objectId}`;
+}
+
+export const facebookAdapter: PlatformAdapter = {
+  key: 'facebook',
+
+  validate(post: SocialMediaPost): string[] {
+    const problems: string[] = [];
+    if (!FACEBOOK_PAGE_ID || !FACEBOOK_PAGE_ACCESS_TOKEN) {
+      problems.push('Facebook page ID or page access token not configured');
+    }
+    return [...problems, ...getContentProblems('facebook', post)];
+  },
+
+  async uploadMedia(post: SocialMediaPost): Promise<PlatformMediaUpload[]> {
+    const { pageId, accessToken } = getFacebookConfig();
+    const uploads: PlatformMediaUpload[] = [];
+
+    for (const item of post.post_media ?? []) {
+      if (item.type === 'video') {
+        // Videos are fetched by Facebook from their URL when the post is published
+        uploads.push({ id: item.url, type: 'video', sourceUrl: item.url });
+        continue;
+      }
+
+      // Photos are uploaded unpublished and attached to the feed post afterwards
+      const photo = await graphRequest<{ id: string }>('POST', `${pageId}/photos`, accessToken, {
+        url: item.url,
+        published: false,
+        alt_text_custom: item.alt_text,
+      });
+      uploads.push({ id: photo.id, type: 'image', sourceUrl: item.url });
+    }
+
+    return uploads;
+  },
+
+  async publish(post: SocialMediaPost, media: PlatformMediaUpload[]): Promise<PlatformPublishResult> {
+    const { pageId, accessToken } = getFacebookConfig();
+    const message = renderMentionsAsPlainText(post.post_text);
+
+    const video = media.find(item => item.type === 'video');
+    if (video) {
+      const result = await graphRequest<{ id: string }>('POST', `${pageId}/videos`, accessToken, {
+        file_url: video.sourceUrl,
+        description: message,
+      });
+      return { id: result.id, link: await getPermalink(result.id, accessToken) };
+    }
+
+    // Text posts and photo posts both go through the page feed
+    const params: Record<string, string> = { message };
+    media.forEach((photo, index) => {
+      params[`attached_media[${index}]`] = JSON.stringify({ media_fbid: photo.id });
+    });
+
+    const result = await graphRequest<{ id: string }>('POST', `${pageId}/feed`, accessToken, params);
+    return { id: result.id, link: await getPermalink(result.id, accessToken) };
+  },
+
+  async delete(publishedId: string): Promise<void> {
+    const { accessToken } = getFacebookConfig();
+    await graphRequest<{ success: boolean }>('DELETE', publishedId, accessToken);
+  },
+
+  async fetchMetrics(publishedId: string): Promise<PlatformMetrics> {
+    const { accessToken } = getFacebookConfig();
+    const result = await graphRequest<{
+      shares?: { count: number };
+      comments?: { summary?: { total_count: number } };
+      reactions?: { summary?: { total_count: number } };
+    }>('GET', publishedId, accessToken, {
+      fields: 'shares,comments.summary(true).limit(0),reactions.summary(true).limit(0)',
+    });
+
+    return {
+      likes: result.reactions?.summary?.total_count,
+      comments: result.comments?.summary?.total_count,
+      shares: result.shares?.count ?? 0,
+    };
+  },
+};
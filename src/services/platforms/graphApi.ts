@@ -0,0 +1,64 @@
+import { PlatformError, isRetryableStatus } from './errors';
+
+// Shared helper for the Facebook Graph API, used by the Facebook and Instagram adapters.
+// FACEBOOK_GRAPH_API_URL can point at a local stand-in of the Graph endpoints for testing.
+const GRAPH_API_URL = (process.env.FACEBOOK_GRAPH_API_URL || 'https://graph.facebook.com/v21.0').replace(/\/$/, '');
+
+type GraphParams = Record<string, string | number | boolean | undefined>;
+
+interface GraphErrorResponse {
+  error?: {
+    message?: string;
+    type?: string;
+    code?: number;
+    is_transient?: boolean;
+  };
+}
+
+/**
+ * Calls a Graph API endpoint and returns the parsed JSON response.
+ * Parameters are sent as a query string for GET/DELETE and as a form body otherwise.
+ */
+export async function graphRequest<T>(
+  method: 'GET' | 'POST' | 'DELETE',
+  path: string,
+  accessToken: string,
+  params: GraphParams = {}
+): Promise<T> {
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries({ ...params, access_token: accessToken })) {
+    if (value !== undefined) searchParams.append(key, String(value));
+  }
+
+  const url = `${GRAPH_API_URL}/${path.replace(/^\//, '')}`;
+  const response = method === 'POST'
+    ? await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: searchParams.toString()
+      })
+    : await fetch(`${url}?${searchParams.toString()}`, { method });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || (result as GraphErrorResponse).error) {
+    const graphError = (result as GraphErrorResponse).error;
+    const message = graphError?.message || JSON.stringify(result);
+    // Graph flags transient errors itself; codes 1, 2, 4, 17, 32 and 613 are
+    // temporary failures and rate limits
+    const retryable = isRetryableStatus(response.status)
+      || graphError?.is_transient === true
+      || [1, 2, 4, 17, 32, 613].includes(graphError?.code ?? 0);
+    throw new PlatformError(`Graph API error: ${response.status} - ${message}`, { retryable, status: response.status });
+  }
+
+  return result as T;
+}
+
+/**
+ * Turns the relative permalinks the Graph API returns for some objects (e.g. videos)
+ * into absolute URLs.
+ */
+export function toAbsoluteFacebookUrl(permalink: string): string {
+  return permalink.startsWith('http') ? permalink : `https://www.facebook.com${permalink}`;
+}
@@ -0,0 +1,30 @@
+import { getPlatformDefinition } from '@/lib/platforms';
+import { PlatformAdapter } from './types';
+import { linkedInAdapter } from './linkedin';
+import { facebookAdapter } from './facebook';
+import { instagramAdapter } from './instagram';
+import { twitterAdapter } from './twitter';
+
+export type { PlatformAdapter, PlatformMediaUpload, PlatformPublishResult, PlatformMetrics } from './types';
+
+// --- Adapter Registry ---
+// To add a network, implement PlatformAdapter in its own module, add a matching
+// entry to PLATFORM_DEFINITIONS in src/lib/platforms.ts and register it here.
+const adapters: PlatformAdapter[] = [
+  linkedInAdapter,
+  facebookAdapter,
+  instagramAdapter,
+  twitterAdapter,
+];
+
+const registry = new Map<string, PlatformAdapter>(adapters.map(adapter => [adapter.key, adapter]));
+
+/**
+ * Returns the adapter for an enabled platform, or undefined if the platform
+ * is unknown or disabled.
+ */
+export function getPlatformAdapter(platform: string): PlatformAdapter | undefined {
+  const definition = getPlatformDefinition(platform);
+  if (!definition || !definition.enabled) return undefined;
+  return registry.get(definition.key);
+}
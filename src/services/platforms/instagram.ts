@@ -0,0 +1,140 @@
+import { SocialMediaPost } from '@/models/SocialMediaPost';
+import { renderMentionsAsPlainText } from '@/lib/linkedinText';
+import { PlatformAdapter, PlatformMediaUpload, PlatformMetrics, PlatformPublishResult, getContentProblems } from './types';
+import { graphRequest } from './graphApi';
+import { PlatformError } from './errors';
+
+// --- IMPORTANT: Get these from your .env.local file ---
+// The Instagram professional account connected to the Facebook Page.
+const INSTAGRAM_ACCOUNT_ID = process.env.INSTAGRAM_ACCOUNT_ID;
+// Falls back to the Page token, which works for the Page's connected Instagram account.
+const INSTAGRAM_ACCESS_TOKEN = process.env.INSTAGRAM_ACCESS_TOKEN || process.env.FACEBOOK_PAGE_ACCESS_TOKEN;
+
+// Containers are processed asynchronously by Instagram; videos can take a few minutes.
+const CONTAINER_POLL_INTERVAL_MS = 5000;
+const CONTAINER_POLL_ATTEMPTS = 60;
+
+type ContainerStatus = 'EXPIRED' | 'ERROR' | 'FINISHED' | 'IN_PROGRESS' | 'PUBLISHED';
+
+function getInstagramConfig(): { accountId: string; accessToken: string } {
+  if (!INSTAGRAM_ACCOUNT_ID || !INSTAGRAM_ACCESS_TOKEN) {
+    throw new Error('Instagram account ID or access token not configured');
+  }
+  return { accountId: INSTAGRAM_ACCOUNT_ID, accessToken: INSTAGRAM_ACCESS_TOKEN };
+}
+
+async function createContainer(accountId: string, accessToken: string, params: Record<string, string | boolean | undefined>): Promise<string> {
+  const result = await graphRequest<{ id: string }>('POST', `${accountId}/media`, accessToken, params);
+  return result.id;
+}
+
+/**
+ * Polls a media container until Instagram has finished processing it.
+ */
+async function waitForContainer(containerId: string, accessToken: string): Promise<void> {
+  for (let attempt = 0; attempt < CONTAINER_POLL_ATTEMPTS; attempt++) {
+    const result = await graphRequest<{ status_code: ContainerStatus; status?: string }>(
+      'GET', containerId, accessToken, { fields: 'status_code,status' }
+    );
+
+    if (result.status_code === 'FINISHED') return;
+    if (result.status_code === 'ERROR' || result.status_code === 'EXPIRED') {
+      // An expired container can be recreated on the next attempt; a processing error can't
+      throw new PlatformError(
+        `Instagram media container ${containerId} ${result.status_code.toLowerCase()}: ${result.status || 'no details'}`,
+        { retryable: result.status_code === 'EXPIRED' }
+      );
+    }
+
+    await new Promise(resolve => setTimeout(resolve, CONTAINER_POLL_INTERVAL_MS));
+  }
+
+  throw new PlatformError(`Instagram media container ${containerId} was not ready after ${CONTAINER_POLL_ATTEMPTS} checks`, { retryable: true });
+}
+
+export const instagramAdapter: PlatformAdapter = {
+  key: 'instagram',
+
+  validate(post: SocialMediaPost): string[] {
+    const problems: string[] = [];
+    if (!INSTAGRAM_ACCOUNT_ID || !INSTAGRAM_ACCESS_TOKEN) {
+      problems.push('Instagram account ID or access token not configured');
+    }
+    // Text-only posts, carousel size, caption, hashtag and @tag limits
+    return [...problems, ...getContentProblems('instagram', post)];
+  },
+
+  // Creates the media container(s) for the post. The returned container is
+  // published by publish() once Instagram has finished processing it.
+  async uploadMedia(post: SocialMediaPost): Promise<PlatformMediaUpload[]> {
+    const { accountId, accessToken } = getInstagramConfig();
+    const media = post.post_media ?? [];
+    const caption = renderMentionsAsPlainText(post.post_text);
+
+    if (media.length === 1) {
+      const [item] = media;
+      const containerId = await createContainer(accountId, accessToken, item.type === 'video'
+        ? { media_type: 'REELS', video_url: item.url, caption }
+        : { image_url: item.url, alt_text: item.alt_text, caption });
+
+      return [{ id: containerId, type: item.type, sourceUrl: item.url }];
+    }
+
+    // Carousel: one container per item, then a parent container referencing them
+    const childIds: string[] = [];
+    for (const item of media) {
+      const childId = await createContainer(accountId, accessToken, item.type === 'video'
+        ? { media_type: 'VIDEO', video_url: item.url, is_carousel_item: true }
+        : { image_url: item.url, alt_text: item.alt_text, is_carousel_item: true });
+      await waitForContainer(childId, accessToken);
+      childIds.push(childId);
+    }
+
+    const carouselId = await createContainer(accountId, accessToken, {
+      media_type: 'CAROUSEL',
+      children: childIds.join(','),
+      caption,
+    });
+
+    return [{ id: carouselId, type: 'image', sourceUrl: media[0].url }];
+  },
+
+  async publish(post: SocialMediaPost, media: PlatformMediaUpload[]): Promise<PlatformPublishResult> {
+    const { accountId, accessToken } = getInstagramConfig();
+
+    if (media.length === 0) {
+      throw new Error('Instagram posts require at least one image or video');
+    }
+
+    const containerId = media[0].id;
+    await waitForContainer(containerId, accessToken);
+
+    const published = await graphRequest<{ id: string }>('POST', `${accountId}/media_publish`, accessToken, {
+      creation_id: containerId,
+    });
+
+    const details = await graphRequest<{ permalink?: string }>('GET', published.id, accessToken, { fields: 'permalink' });
+    if (!details.permalink) {
+      // The media is live at this point, so a missing permalink must not fail the publish
+      console.warn(`Instagram did not return a permalink for media ${published.id}`);
+    }
+
+    return { id: published.id, link: details.permalink ?? '' };
+  },
+
+  async delete(): Promise<void> {
+    throw new Error('Instagram does not allow deleting published media through the API');
+  },
+
+  async fetchMetrics(publishedId: string): Promise<PlatformMetrics> {
+    const { accessToken } = getInstagramConfig();
+    const result = await graphRequest<{ like_count?: number; comments_count?: number }>(
+      'GET', publishedId, accessToken, { fields: 'like_count,comments_count' }
+    );
+
+    return {
+      likes: result.like_count,
+      comments: result.comments_count,
+    };
+  },
+};
@@ -0,0 +1,216 @@
+import { SocialMediaPost } from '@/models/SocialMediaPost';
+import { formatLinkedInCommentary, renderMentionsAsPlainText } from '@/lib/linkedinText';
+import { inspectMedia } from '@/lib/mediaInspection';
+import { PlatformAdapter, PlatformMediaUpload, PlatformMetrics, PlatformPublishResult, getContentProblems } from './types';
+import { PlatformError, httpError } from './errors';
+import { downloadMedia } from './media';
+
+// --- IMPORTANT: Get these from your .env.local file ---
+const LINKEDIN_ACCESS_TOKEN = process.env.LINKEDIN_ACCESS_TOKEN;
+// This should be your Company Page URN, not a personal one.
+const LINKEDIN_ORG_URN = process.env.LINKEDIN_ORG_URN; // e.g., 'urn:li:organization:73993421'
+
+
+interface LinkedInMediaRegistrationResponse {
+  value: {
+    uploadMechanism: {
+      'com.linkedin.digitalmedia.uploading.MediaUploadHttpRequest': {
+        uploadUrl: string;
+        headers: Record<string, string>;
+      };
+    };
+    asset: string;
+  };
+}
+
+function getLinkedInHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${LINKEDIN_ACCESS_TOKEN}`,
+    'Content-Type': 'application/json',
+    'X-Restli-Protocol-Version': '2.0.0'
+  };
+}
+
+function assertLinkedInConfigured() {
+  if (!LINKEDIN_ACCESS_TOKEN || !LINKEDIN_ORG_URN) {
+    throw new Error('LinkedIn access token or organization URN not configured');
+  }
+}
+
+async function registerLinkedInMedia(mediaType: 'image' | 'video'): Promise<LinkedInMediaRegistrationResponse> {
+  const recipe = mediaType === 'image'
+    ? 'urn:li:digitalmediaRecipe:feedshare-image'
+    : 'urn:li:digitalmediaRecipe:feedshare-video';
+
+  const response = await fetch('https://api.linkedin.com/v2/assets?action=registerUpload', {
+    method: 'POST',
+    headers: getLinkedInHeaders(),
+    body: JSON.stringify({
+      registerUploadRequest: {
+        recipes: [recipe],
+        owner: LINKEDIN_ORG_URN, // Using Organization URN
+        serviceRelationships: [
+          {
+            relationshipType: 'OWNER',
+            identifier: 'urn:li:userGeneratedContent'
+          }
+        ]
+      }
+    })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('LinkedIn media registration error:', response.status, errorData);
+    throw httpError(`Failed to register media upload with LinkedIn: ${response.status}`, response.status);
+  }
+
+  return response.json();
+}
+
+async function uploadMediaToLinkedIn(uploadUrl: string, mediaBuffer: Buffer, contentType: string): Promise<void> {
+  const response = await fetch(uploadUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': contentType,
+    },
+    body: mediaBuffer
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => 'Unknown error');
+    console.error('LinkedIn media upload error:', response.status, errorText);
+    throw httpError(`Failed to upload media to LinkedIn using api: ${response.status}`, response.status);
+  }
+}
+
+export const linkedInAdapter: PlatformAdapter = {
+  key: 'linkedin',
+
+  validate(post: SocialMediaPost): string[] {
+    const problems: string[] = [];
+    if (!LINKEDIN_ACCESS_TOKEN || !LINKEDIN_ORG_URN) {
+      problems.push('LinkedIn access token or organization URN not configured');
+    }
+    if (!post.post_text) {
+      problems.push('LinkedIn posts require text');
+    }
+    return [...problems, ...getContentProblems('linkedin', post)];
+  },
+
+  // Every file is registered and uploaded in order, so a multi-image post keeps
+  // the order of the composer
+  async uploadMedia(post: SocialMediaPost): Promise<PlatformMediaUpload[]> {
+    assertLinkedInConfigured();
+
+    const uploads: PlatformMediaUpload[] = [];
+    for (const { url: mediaUrl } of post.post_media ?? []) {
+      // The file's own bytes decide the upload recipe and content type
+      const mediaBuffer = await downloadMedia(mediaUrl);
+      const metadata = inspectMedia(mediaBuffer);
+      if (!metadata) {
+        throw new PlatformError(`${mediaUrl} is not a supported image or video file`, { retryable: false });
+      }
+
+      const registrationResponse = await registerLinkedInMedia(metadata.type);
+
+      await uploadMediaToLinkedIn(
+        registrationResponse.value.uploadMechanism['com.linkedin.digitalmedia.uploading.MediaUploadHttpRequest'].uploadUrl,
+        mediaBuffer,
+        metadata.mime_type
+      );
+
+      uploads.push({ id: registrationResponse.value.asset, type: metadata.type, sourceUrl: mediaUrl });
+    }
+
+    return uploads;
+  },
+
+  async publish(post: SocialMediaPost, media: PlatformMediaUpload[]): Promise<PlatformPublishResult> {
+    assertLinkedInConfigured();
+
+    // The commentary is little text (escaped, with URN mentions); titles and
+    // descriptions are plain text
+    const commentary = formatLinkedInCommentary(post.post_text);
+    const plainText = renderMentionsAsPlainText(post.post_text);
+
+    const shareContent = media.length > 0
+      ? {
+          shareCommentary: { text: commentary },
+          shareMediaCategory: media[0].type.toUpperCase(),
+          media: media.map(item => {
+            // Each file can have its own title and description; the alt text and
+            // the post text are the fallbacks
+            const details = post.post_media?.find(entry => entry.url === item.sourceUrl);
+            return {
+              status: 'READY',
+              description: { text: details?.description || details?.alt_text || plainText.substring(0, 200) },
+              media: item.id,
+              title: { text: details?.title || plainText.substring(0, 50) }
+            };
+          })
+        }
+      : {
+          shareCommentary: { text: commentary },
+          shareMediaCategory: 'NONE'
+        };
+
+    const postData = {
+      author: LINKEDIN_ORG_URN, // Use Organization URN
+      lifecycleState: 'DRAFT', // Set to DRAFT for testing
+      specificContent: {
+        'com.linkedin.ugc.ShareContent': shareContent
+      },
+      visibility: { 'com.linkedin.ugc.MemberNetworkVisibility': 'PUBLIC' }
+    };
+
+    const response = await fetch('https://api.linkedin.com/v2/ugcPosts', {
+      method: 'POST',
+      headers: getLinkedInHeaders(),
+      body: JSON.stringify(postData)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw httpError(`LinkedIn API error: ${response.status} - ${JSON.stringify(errorData)}`, response.status);
+    }
+
+    const result = await response.json();
+    const postId = result.id;
+
+    return { id: postId, link: `https://www.linkedin.com/feed/update/${postId}` };
+  },
+
+  async delete(publishedId: string): Promise<void> {
+    assertLinkedInConfigured();
+
+    const response = await fetch(`https://api.linkedin.com/v2/ugcPosts/${encodeURIComponent(publishedId)}`, {
+      method: 'DELETE',
+      headers: getLinkedInHeaders()
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw httpError(`LinkedIn API error: ${response.status} - ${JSON.stringify(errorData)}`, response.status);
+    }
+  },
+
+  async fetchMetrics(publishedId: string): Promise<PlatformMetrics> {
+    assertLinkedInConfigured();
+
+    const response = await fetch(`https://api.linkedin.com/v2/socialActions/${encodeURIComponent(publishedId)}`, {
+      headers: getLinkedInHeaders()
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw httpError(`LinkedIn API error: ${response.status} - ${JSON.stringify(errorData)}`, response.status);
+    }
+
+    const result = await response.json();
+    return {
+      likes: result.likesSummary?.totalLikes,
+      comments: result.commentsSummary?.totalFirstLevelComments,
+    };
+  },
+};
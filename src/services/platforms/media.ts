@@ -0,0 +1,24 @@
+import { PlatformError, httpError, isRetryableError } from './errors';
+
+/**
+ * Downloads a media file (e.g. from Cloudinary) so it can be uploaded to a platform.
+ * Network failures and 5xx responses are retryable; a missing file or bad URL is not.
+ */
+export async function downloadMedia(mediaUrl: string): Promise<Buffer> {
+  let mediaResponse: Response;
+  try {
+    mediaResponse = await fetch(mediaUrl);
+  } catch (downloadError) {
+    console.error('Media download error:', downloadError);
+    throw new PlatformError(
+      `Failed to download media: ${downloadError instanceof Error ? downloadError.message : 'Unknown error'}`,
+      { retryable: isRetryableError(downloadError) }
+    );
+  }
+
+  if (!mediaResponse.ok) {
+    throw httpError(`Failed to download media: ${mediaResponse.status}`, mediaResponse.status);
+  }
+
+  return Buffer.from(await mediaResponse.arrayBuffer());
+}
@@ -0,0 +1,198 @@
+import { SocialMediaPost } from '@/models/SocialMediaPost';
+import { splitIntoThread } from '@/lib/twitterThread';
+import { renderMentionsAsPlainText } from '@/lib/linkedinText';
+import { inspectMedia } from '@/lib/mediaInspection';
+import { PlatformAdapter, PlatformMediaUpload, PlatformMetrics, PlatformPublishResult, detectMediaType, getContentProblems } from './types';
+import { PlatformError, httpError } from './errors';
+import { downloadMedia } from './media';
+
+// --- IMPORTANT: Get these from your .env.local file ---
+// OAuth 2.0 user-context token of the posting account with tweet.write and media.write scopes.
+const X_ACCESS_TOKEN = process.env.X_ACCESS_TOKEN;
+const X_API_URL = (process.env.X_API_URL || 'https://api.x.com').replace(/\/$/, '');
+
+// Media is uploaded in chunks of 4 MB.
+const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+const PROCESSING_POLL_ATTEMPTS = 30;
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+};
+
+interface XMediaUploadResponse {
+  data: {
+    id: string;
+    processing_info?: {
+      state: 'pending' | 'in_progress' | 'succeeded' | 'failed';
+      check_after_secs?: number;
+      error?: { message?: string };
+    };
+  };
+}
+
+function assertXConfigured() {
+  if (!X_ACCESS_TOKEN) {
+    throw new Error('X access token not configured');
+  }
+}
+
+async function xRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${X_ACCESS_TOKEN}`);
+  if (typeof init.body === 'string') headers.set('Content-Type', 'application/json');
+
+  const response = await fetch(`${X_API_URL}${path}`, { ...init, headers });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw httpError(`X API error: ${response.status} - ${JSON.stringify(errorData)}`, response.status);
+  }
+
+  return response.status === 204 ? ({} as T) : response.json();
+}
+
+// Prefers the type found in the file's bytes over its extension
+function getMimeType(mediaUrl: string, mediaBuffer: Buffer): string {
+  const inspected = inspectMedia(mediaBuffer);
+  if (inspected) return inspected.mime_type;
+
+  const extension = new URL(mediaUrl).pathname.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES[extension] ?? (detectMediaType(mediaUrl) === 'video' ? 'video/mp4' : 'image/jpeg');
+}
+
+/**
+ * Uploads a media file with the chunked initialize/append/finalize flow and
+ * waits until X has finished processing it.
+ */
+async function uploadXMedia(mediaUrl: string): Promise<string> {
+  const mediaBuffer = await downloadMedia(mediaUrl);
+
+  const mimeType = getMimeType(mediaUrl, mediaBuffer);
+  const mediaCategory = mimeType.startsWith('video/') ? 'tweet_video' : mimeType === 'image/gif' ? 'tweet_gif' : 'tweet_image';
+
+  const initialized = await xRequest<XMediaUploadResponse>('/2/media/upload/initialize', {
+    method: 'POST',
+    body: JSON.stringify({ media_type: mimeType, total_bytes: mediaBuffer.length, media_category: mediaCategory }),
+  });
+  const mediaId = initialized.data.id;
+
+  for (let offset = 0, segment = 0; offset < mediaBuffer.length; offset += UPLOAD_CHUNK_SIZE, segment++) {
+    const form = new FormData();
+    form.append('segment_index', String(segment));
+    form.append('media', new Blob([mediaBuffer.subarray(offset, offset + UPLOAD_CHUNK_SIZE)], { type: mimeType }));
+    await xRequest(`/2/media/upload/${mediaId}/append`, { method: 'POST', body: form });
+  }
+
+  let status = await xRequest<XMediaUploadResponse>(`/2/media/upload/${mediaId}/finalize`, { method: 'POST' });
+
+  for (let attempt = 0; status.data.processing_info && attempt < PROCESSING_POLL_ATTEMPTS; attempt++) {
+    const { state, check_after_secs, error } = status.data.processing_info;
+    if (state === 'succeeded') return mediaId;
+    if (state === 'failed') throw new PlatformError(`X media processing failed: ${error?.message || 'no details'}`, { retryable: false });
+
+    await new Promise(resolve => setTimeout(resolve, (check_after_secs ?? 5) * 1000));
+    status = await xRequest<XMediaUploadResponse>(`/2/media/upload?command=STATUS&media_id=${mediaId}`);
+  }
+
+  if (status.data.processing_info && status.data.processing_info.state !== 'succeeded') {
+    throw new PlatformError(`X media ${mediaId} was not processed after ${PROCESSING_POLL_ATTEMPTS} checks`, { retryable: true });
+  }
+
+  return mediaId;
+}
+
+async function deleteTweets(tweetIds: string[]): Promise<void> {
+  for (const tweetId of tweetIds) {
+    await xRequest(`/2/tweets/${tweetId}`, { method: 'DELETE' });
+  }
+}
+
+export const twitterAdapter: PlatformAdapter = {
+  key: 'twitter',
+
+  validate(post: SocialMediaPost): string[] {
+    const problems: string[] = [];
+    if (!X_ACCESS_TOKEN) {
+      problems.push('X access token not configured');
+    }
+    return [...problems, ...getContentProblems('twitter', post)];
+  },
+
+  async uploadMedia(post: SocialMediaPost): Promise<PlatformMediaUpload[]> {
+    assertXConfigured();
+
+    const uploads: PlatformMediaUpload[] = [];
+    for (const item of post.post_media ?? []) {
+      const mediaId = await uploadXMedia(item.url);
+      if (item.alt_text) {
+        await xRequest('/2/media/metadata', {
+          method: 'POST',
+          body: JSON.stringify({ id: mediaId, metadata: { alt_text: { text: item.alt_text } } }),
+        });
+      }
+      uploads.push({ id: mediaId, type: item.type, sourceUrl: item.url });
+    }
+    return uploads;
+  },
+
+  // Long text is posted as a numbered thread; media is attached to the first post.
+  // The published id lists every tweet of the thread, comma-separated.
+  async publish(post: SocialMediaPost, media: PlatformMediaUpload[]): Promise<PlatformPublishResult> {
+    assertXConfigured();
+
+    const text = renderMentionsAsPlainText(post.post_text);
+    const tweets = text ? splitIntoThread(text) : [''];
+    const tweetIds: string[] = [];
+
+    try {
+      for (const [index, text] of tweets.entries()) {
+        const body: Record<string, unknown> = {};
+        if (text) body.text = text;
+        if (index === 0 && media.length > 0) body.media = { media_ids: media.map(item => item.id) };
+        if (index > 0) body.reply = { in_reply_to_tweet_id: tweetIds[index - 1] };
+
+        const result = await xRequest<{ data: { id: string } }>('/2/tweets', {
+          method: 'POST',
+          body: JSON.stringify(body),
+        });
+        tweetIds.push(result.data.id);
+      }
+    } catch (error) {
+      // Don't leave half a thread behind: remove what was already posted before failing
+      await deleteTweets(tweetIds).catch(cleanupError => {
+        console.error('X thread cleanup error:', cleanupError);
+      });
+      throw error;
+    }
+
+    return { id: tweetIds.join(','), link: `https://x.com/i/web/status/${tweetIds[0]}` };
+  },
+
+  async delete(publishedId: string): Promise<void> {
+    assertXConfigured();
+    await deleteTweets(publishedId.split(','));
+  },
+
+  async fetchMetrics(publishedId: string): Promise<PlatformMetrics> {
+    assertXConfigured();
+
+    const [rootTweetId] = publishedId.split(',');
+    const result = await xRequest<{
+      data: { public_metrics?: { like_count: number; reply_count: number; retweet_count: number; impression_count?: number } };
+    }>(`/2/tweets/${rootTweetId}?tweet.fields=public_metrics`);
+
+    const metrics = result.data.public_metrics;
+    return {
+      likes: metrics?.like_count,
+      comments: metrics?.reply_count,
+      shares: metrics?.retweet_count,
+      impressions: metrics?.impression_count,
+    };
+  },
+};
@@ -0,0 +1,56 @@
+import { SocialMediaPost } from '@/models/SocialMediaPost';
+import { detectMediaType, validatePlatformContent } from '@/lib/postValidation';
+
+export { detectMediaType };
+
+// A media file that has been uploaded to a platform and can be attached to a post there.
+export interface PlatformMediaUpload {
+  // Platform-specific reference, e.g. a LinkedIn asset URN or a Facebook photo id
+  id: string;
+  type: 'image' | 'video';
+  sourceUrl: string;
+}
+
+export interface PlatformPublishResult {
+  // Platform-specific id of the published post, used for delete and metrics
+  id: string;
+  link: string;
+}
+
+export interface PlatformMetrics {
+  likes?: number;
+  comments?: number;
+  shares?: number;
+  impressions?: number;
+}
+
+/**
+ * Everything the service needs to publish to one network.
+ * Methods throw on failure; postToSocialMedia turns the error into a platform result.
+ */
+export interface PlatformAdapter {
+  key: string;
+  /** Returns the problems that would prevent this post from publishing; empty when valid. */
+  validate(post: SocialMediaPost): string[];
+  /** Uploads the post's media to the platform. */
+  uploadMedia(post: SocialMediaPost): Promise<PlatformMediaUpload[]>;
+  /** Publishes the post with the media returned by uploadMedia. */
+  publish(post: SocialMediaPost, media: PlatformMediaUpload[]): Promise<PlatformPublishResult>;
+  /** Removes a published post from the platform. */
+  delete(publishedId: string): Promise<void>;
+  /** Fetches engagement numbers for a published post. */
+  fetchMetrics(publishedId: string): Promise<PlatformMetrics>;
+}
+
+/**
+ * Runs the shared content rules for a platform (see src/lib/postValidation.ts)
+ * and returns the blocking problems as messages.
+ */
+export function getContentProblems(platform: string, post: SocialMediaPost): string[] {
+  return validatePlatformContent(platform, {
+    text: post.post_text,
+    media: post.post_media ?? [],
+  })
+    .filter(issue => issue.severity === 'error')
+    .map(issue => issue.message);
+}
@@ -0,0 +1,135 @@
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { ObjectId, WithId } from 'mongodb';
+import { getSocialMediaPostsCollection, SocialMediaPost } from '@/models/SocialMediaPost';
+import { AuditEvent } from '@/models/AuditEvent';
+import { recordAuditEvents, recordStatusChange } from '@/services/auditService';
+
+// How long a trigger run may hold a post before another run can recover it.
+const LEASE_DURATION_MS = Number(process.env.POST_LEASE_MINUTES || 15) * 60 * 1000;
+// After this many recoveries a post is marked as failed instead of being queued again.
+const MAX_LEASE_RECOVERIES = Number(process.env.POST_MAX_LEASE_RECOVERIES || 3);
+
+/**
+ * Creates a unique owner id for one trigger run.
+ */
+export function createLeaseOwner(): string {
+  return `${hostname()}:${process.pid}:${randomUUID()}`;
+}
+
+/**
+ * Atomically claims the oldest due post for the given owner: an approved post whose
+ * scheduled_date has passed, or a failed/partially posted one whose retry is due.
+ * Series (posts with a recurrence) are never claimed; their occurrences are.
+ * The post moves to 'processing' with a lease, so no other run can pick it up.
+ * Returns null when there is nothing left to claim.
+ */
+export async function claimNextDuePost(owner: string, now: Date = new Date()): Promise<WithId<SocialMediaPost> | null> {
+  const postsCollection = await getSocialMediaPostsCollection();
+  const claim = {
+    status: 'processing' as const,
+    lease: { owner, expires_at: new Date(now.getTime() + LEASE_DURATION_MS) },
+    updated_at: now,
+  };
+
+  // The post before the claim, so its previous status can be audited
+  const post = await postsCollection.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'approved', scheduled_date: { $lte: now }, recurrence: { $exists: false } },
+        { status: { $in: ['failed', 'partial_success'] }, next_attempt_at: { $lte: now } },
+      ],
+    },
+    { $set: claim },
+    { sort: { next_attempt_at: 1, scheduled_date: 1 }, returnDocument: 'before' }
+  );
+
+  if (!post) return null;
+
+  await recordStatusChange(post._id, post.status, 'processing', {
+    source: 'trigger',
+    message: post.status === 'approved' ? 'Claimed for publishing' : 'Claimed for a retry',
+  });
+  return { ...post, ...claim };
+}
+
+/**
+ * Extends the lease of a post still owned by the given owner, e.g. while waiting
+ * for an external service to report back on the given platforms. Returns false
+ * if the lease was lost.
+ */
+export async function extendLease(postId: ObjectId, owner: string, durationMs: number, platforms?: string[]): Promise<boolean> {
+  const postsCollection = await getSocialMediaPostsCollection();
+
+  const result = await postsCollection.updateOne(
+    { _id: postId, status: 'processing', 'lease.owner': owner },
+    {
+      $set: {
+        'lease.expires_at': new Date(Date.now() + durationMs),
+        ...(platforms && { 'lease.platforms': platforms }),
+        updated_at: new Date(),
+      },
+    }
+  );
+
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Recovers posts whose lease expired while they were 'processing', e.g. because
+ * the run that claimed them crashed. They are queued again as 'approved' until
+ * they have been recovered MAX_LEASE_RECOVERIES times, after which they fail.
+ * Posts are recovered one at a time, so only posts that were actually changed
+ * are audited.
+ */
+export async function recoverExpiredLeases(now: Date = new Date()): Promise<{ requeued: number; failed: number }> {
+  const postsCollection = await getSocialMediaPostsCollection();
+  const expired = { status: 'processing' as const, 'lease.expires_at': { $lt: now } };
+  const events: Omit<AuditEvent, 'created_at'>[] = [];
+
+  const recover = async (gaveUp: boolean): Promise<number> => {
+    let recovered = 0;
+    for (;;) {
+      const post = await postsCollection.findOneAndUpdate(
+        { ...expired, lease_recoveries: gaveUp ? { $gte: MAX_LEASE_RECOVERIES } : { $not: { $gte: MAX_LEASE_RECOVERIES } } },
+        gaveUp
+          ? {
+              $set: {
+                status: 'failed',
+                failure_reason: `Processing lease expired ${MAX_LEASE_RECOVERIES + 1} times without a result.`,
+                updated_at: now,
+              },
+              // Without a due retry the post isn't claimed again
+              $unset: { lease: '', next_attempt_at: '' },
+            }
+          : {
+              $set: { status: 'approved', updated_at: now },
+              $inc: { lease_recoveries: 1 },
+              $unset: { lease: '', next_attempt_at: '' },
+            },
+        { projection: { _id: 1 } }
+      );
+      if (!post) return recovered;
+
+      recovered++;
+      events.push({
+        post_id: post._id,
+        action: 'status_changed',
+        source: 'trigger',
+        from_status: 'processing',
+        to_status: gaveUp ? 'failed' : 'approved',
+        message: gaveUp ? 'Processing lease expired too many times' : 'Processing lease expired; queued again',
+      });
+    }
+  };
+
+  const failed = await recover(true);
+  const requeued = await recover(false);
+  await recordAuditEvents(events, now);
+
+  if (failed > 0 || requeued > 0) {
+    console.warn(`Recovered expired post leases: ${requeued} requeued, ${failed} failed.`);
+  }
+
+  return { requeued, failed };
+}
@@ -0,0 +1,103 @@
+import { Filter, ObjectId, WithId } from 'mongodb';
+import {
+  getSocialMediaPostsCollection,
+  PlatformResult,
+  SocialMediaPost,
+  derivePostStatus,
+  collectPostLinks,
+  summarizeFailures,
+  getNextRetryAt,
+  getPlatformsDueForPublish,
+  recordPlatformAttempt,
+} from '@/models/SocialMediaPost';
+import { AuditSource } from '@/models/AuditEvent';
+import { recordStatusChange } from '@/services/auditService';
+import { isRetryableError } from '@/services/platforms/errors';
+import { getNextAttemptAt } from '@/lib/retryPolicy';
+
+/**
+ * Stores the per-platform results of a publish and derives the post's final
+ * status, links and failure reason from them. Releases the processing lease and
+ * schedules the post for another run if any failed platform has a retry due.
+ * Shared by every dispatch path so the bookkeeping is identical whichever
+ * way the post went out. The source says who reported the results, for the audit log.
+ * Results only apply while the post is 'processing' and, with a lease owner, while
+ * that run still holds the lease; otherwise null is returned.
+ */
+export async function applyPlatformResults(
+  postId: ObjectId,
+  platforms: string[],
+  platformResults: Record<string, PlatformResult>,
+  source: AuditSource,
+  options: { leaseOwner?: string } = {}
+): Promise<SocialMediaPost['status'] | null> {
+  const postsCollection = await getSocialMediaPostsCollection();
+
+  const finalStatus = derivePostStatus(platforms, platformResults);
+  const updateFields: Partial<SocialMediaPost> = {
+    status: finalStatus,
+    updated_at: new Date(),
+    platform_results: platformResults,
+    post_links: collectPostLinks(platformResults),
+  };
+
+  // If any platform failed, add a reason for easier debugging.
+  const failureReason = summarizeFailures(platformResults);
+  if (failureReason) {
+    updateFields.failure_reason = failureReason;
+  }
+
+  const nextRetryAt = getNextRetryAt(platformResults);
+  if (nextRetryAt) {
+    updateFields.next_attempt_at = nextRetryAt;
+  }
+
+  // The post is no longer in flight, so release its processing lease; earlier
+  // lease recoveries don't count against later runs
+  const unsetFields: Record<string, ''> = { lease: '', lease_recoveries: '' };
+  if (!failureReason) unsetFields.failure_reason = '';
+  if (!nextRetryAt) unsetFields.next_attempt_at = '';
+
+  const filter: Filter<SocialMediaPost> = { _id: postId, status: 'processing' };
+  if (options.leaseOwner) filter['lease.owner'] = options.leaseOwner;
+
+  const previous = await postsCollection.findOneAndUpdate(
+    filter,
+    { $set: updateFields, $unset: unsetFields },
+    { returnDocument: 'before', projection: { status: 1 } }
+  );
+
+  if (!previous) return null;
+
+  if (previous.status !== finalStatus) {
+    await recordStatusChange(postId, previous.status, finalStatus, { source, message: failureReason });
+  }
+  return finalStatus;
+}
+
+/**
+ * Records a failed attempt on every platform a post was being dispatched to when
+ * it could not be dispatched at all, e.g. because the automation webhook was
+ * down or rejected it. Transient errors get a retry from the retry policy; the
+ * post only ends up failed for good once the error is permanent or the attempts
+ * are used up. Only applies while the dispatching run still holds the lease.
+ */
+export async function markDispatchFailed(post: WithId<SocialMediaPost>, leaseOwner: string, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const retryable = isRetryableError(error);
+  const attemptedAt = new Date();
+
+  const platformResults: Record<string, PlatformResult> = { ...post.platform_results };
+  for (const platform of getPlatformsDueForPublish(post, attemptedAt)) {
+    const platformKey = platform.toLowerCase();
+    const previous = post.platform_results?.[platformKey];
+    const nextAttemptAt = getNextAttemptAt((previous?.attempts ?? 0) + 1, retryable, attemptedAt);
+    platformResults[platformKey] = recordPlatformAttempt(
+      previous,
+      { success: false, error: message, retryable, next_attempt_at: nextAttemptAt },
+      attemptedAt
+    );
+  }
+
+  await applyPlatformResults(post._id, post.platforms, platformResults, 'trigger', { leaseOwner });
+}
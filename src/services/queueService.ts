@@ -0,0 +1,187 @@
+import { MongoServerError, ObjectId, WithId } from 'mongodb';
+import { getSocialMediaPostsCollection, SocialMediaPost, UNPUBLISHED_STATUSES } from '@/models/SocialMediaPost';
+import { getPostingQueuesCollection, PostingQueue, teamFilter } from '@/models/PostingQueue';
+import { getTeamTimeZone } from '@/models/TeamSettings';
+import { User } from '@/models/User';
+import { iterateSlotTimes } from '@/lib/queueSlots';
+import { recordPostUpdated } from '@/services/auditService';
+import { toUserRef } from '@/lib/auth';
+
+// Slots tried by claimQueueSlot before giving up on a busy queue
+const MAX_SLOT_CLAIMS = 5;
+
+/**
+ * Whether a write failed because another queued post already holds the slot on
+ * one of the platforms (the unique queue slot index on posts).
+ */
+export function isQueueSlotConflict(error: unknown): boolean {
+  return error instanceof MongoServerError && error.code === 11000 && !!error.keyPattern?.platforms;
+}
+
+// The queues of a team on the given platforms
+export async function getQueues(team: string | undefined, platforms: string[]): Promise<WithId<PostingQueue>[]> {
+  const queuesCollection = await getPostingQueuesCollection();
+  return queuesCollection.find({ ...teamFilter(team), platform: { $in: platforms.map(platform => platform.toLowerCase()) } }).toArray();
+}
+
+// Queued posts of a team that haven't gone out, on any of the platforms, in slot order
+export async function getQueuedPosts(team: string | undefined, platforms: string[], after: Date = new Date()): Promise<WithId<SocialMediaPost>[]> {
+  const postsCollection = await getSocialMediaPostsCollection();
+  return postsCollection
+    .find({
+      ...teamFilter(team),
+      queued: true,
+      status: { $in: UNPUBLISHED_STATUSES },
+      platforms: { $in: platforms.map(platform => platform.toLowerCase()) },
+      scheduled_date: { $gt: after },
+    })
+    .sort({ scheduled_date: 1 })
+    .toArray();
+}
+
+/**
+ * Returns the next free slot for a post of a team on the given platforms, or
+ * null if those queues have no slots. Slots come from the queues of all the
+ * platforms; a slot is taken when another queued post on one of them holds it.
+ */
+export async function findNextFreeSlot(
+  team: string | undefined,
+  platforms: string[],
+  options: { after?: Date; excludePostId?: ObjectId } = {}
+): Promise<Date | null> {
+  const [slot] = await findFreeSlots(team, platforms, 1, options);
+  return slot ?? null;
+}
+
+/**
+ * Stores a post in the next free slot of a team's queues: `write` saves the post
+ * with the slot and queued set. When another request took the slot in the
+ * meantime the next free one is tried. Returns what `write` returned, or null
+ * if those queues have no free slot.
+ */
+export async function claimQueueSlot<T>(
+  team: string | undefined,
+  platforms: string[],
+  write: (slot: Date) => Promise<T>,
+  options: { excludePostId?: ObjectId } = {}
+): Promise<T | null> {
+  for (let attempt = 1; ; attempt++) {
+    const slot = await findNextFreeSlot(team, platforms, options);
+    if (!slot) return null;
+    try {
+      return await write(slot);
+    } catch (error) {
+      if (!isQueueSlotConflict(error) || attempt >= MAX_SLOT_CLAIMS) throw error;
+    }
+  }
+}
+
+// The next `limit` free slots; see findNextFreeSlot
+export async function findFreeSlots(
+  team: string | undefined,
+  platforms: string[],
+  limit: number,
+  options: { after?: Date; excludePostId?: ObjectId } = {}
+): Promise<Date[]> {
+  const slots = (await getQueues(team, platforms)).flatMap(queue => queue.slots);
+  if (slots.length === 0) return [];
+
+  const after = options.after ?? new Date();
+  const taken = new Set(
+    (await getQueuedPosts(team, platforms, after))
+      .filter(post => !options.excludePostId?.equals(post._id))
+      .map(post => post.scheduled_date.getTime())
+  );
+
+  const free: Date[] = [];
+  for (const time of iterateSlotTimes(slots, await getTeamTimeZone(team), after)) {
+    if (free.length >= limit) break;
+    if (!taken.has(time.getTime())) free.push(time);
+  }
+  return free;
+}
+
+// Moves a queued post to another slot, or puts a post that gave up its slot
+// (`released`) back in the queue. Approved posts stay approved: the queue
+// decides when they go out, not their content. Returns false if the post
+// changed in the meantime or the slot is taken.
+async function moveQueuedPost(post: WithId<SocialMediaPost>, scheduledDate: Date, user: WithId<User>, released = false): Promise<boolean> {
+  const postsCollection = await getSocialMediaPostsCollection();
+  let updated: WithId<SocialMediaPost> | null;
+  try {
+    updated = await postsCollection.findOneAndUpdate(
+      { _id: post._id, scheduled_date: post.scheduled_date, queued: released ? { $exists: false } : true },
+      { $set: { scheduled_date: scheduledDate, queued: true, updated_at: new Date(), updated_by: toUserRef(user) } },
+      { returnDocument: 'after' }
+    );
+  } catch (error) {
+    if (isQueueSlotConflict(error)) return false;
+    throw error;
+  }
+  if (!updated) return false;
+
+  await recordPostUpdated(post, updated, user);
+  return true;
+}
+
+/**
+ * After a queued post left its slot (deleted or rescheduled), moves later queued
+ * posts up into the earliest free slots, keeping their order. Only the queues of
+ * the post's platforms that have shuffling on take part. Returns the number of
+ * posts moved.
+ */
+export async function shuffleQueue(team: string | undefined, platforms: string[], user: WithId<User>): Promise<number> {
+  const shufflingPlatforms = (await getQueues(team, platforms)).filter(queue => queue.shuffle).map(queue => queue.platform);
+  if (shufflingPlatforms.length === 0) return 0;
+
+  let moved = 0;
+  for (const post of await getQueuedPosts(team, shufflingPlatforms)) {
+    const slot = await findNextFreeSlot(team, post.platforms, { excludePostId: post._id });
+    if (slot && slot < post.scheduled_date && await moveQueuedPost(post, slot, user)) moved++;
+  }
+  return moved;
+}
+
+/**
+ * Puts queued posts in a new order by handing out their current slots again,
+ * earliest slot first. Returns an error message if a post isn't queued, the
+ * posts aren't all of one team or the queue changed while they were moving.
+ */
+export async function reorderQueuedPosts(posts: WithId<SocialMediaPost>[], user: WithId<User>): Promise<string | null> {
+  if (posts.some(post => !post.queued || !UNPUBLISHED_STATUSES.includes(post.status))) {
+    return 'Only queued posts that haven\'t gone out can be reordered';
+  }
+  if (new Set(posts.map(post => post.team ?? '')).size > 1) {
+    return 'Posts of different teams can\'t be reordered together';
+  }
+
+  const slots = posts.map(post => post.scheduled_date).sort((a, b) => a.getTime() - b.getTime());
+  const moves = posts
+    .map((post, index) => ({ post, slot: slots[index] }))
+    .filter(({ post, slot }) => post.scheduled_date.getTime() !== slot.getTime());
+
+  // The moving posts give up their slots first, so that no two of them ever
+  // hold the same slot on the way
+  const postsCollection = await getSocialMediaPostsCollection();
+  const released: typeof moves = [];
+  for (const move of moves) {
+    const result = await postsCollection.updateOne(
+      { _id: move.post._id, scheduled_date: move.post.scheduled_date, queued: true },
+      { $unset: { queued: '' } }
+    );
+    if (result.modifiedCount > 0) released.push(move);
+  }
+
+  let conflict = released.length < moves.length;
+  for (const { post, slot } of released) {
+    if (!conflict && await moveQueuedPost(post, slot, user, true)) continue;
+    // Another post took a slot while it was free: the rest go back to their own
+    // slots, or else to the next free one
+    conflict = true;
+    if (await moveQueuedPost(post, post.scheduled_date, user, true)) continue;
+    const next = await findNextFreeSlot(post.team, post.platforms, { excludePostId: post._id });
+    if (next) await moveQueuedPost(post, next, user, true);
+  }
+
+  return conflict ? 'The queue changed in the meantime; reload it and try again' : null;
+}
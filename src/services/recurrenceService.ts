@@ -0,0 +1,204 @@
+import { WithId } from 'mongodb';
+import { getSocialMediaPostsCollection, SocialMediaPost, UNPUBLISHED_STATUSES } from '@/models/SocialMediaPost';
+import { User } from '@/models/User';
+import { getDefaultTimeZone } from '@/models/TeamSettings';
+import { getOccurrences, isOccurrence, isSkippedOccurrence } from '@/lib/recurrence';
+import { recordAuditEvent, recordPostDeleted } from '@/services/auditService';
+import { toUserRef } from '@/lib/auth';
+
+// Occurrences that became due longer ago than this (e.g. while the trigger wasn't
+// running) are passed over instead of being published late.
+const CATCH_UP_MS = Number(process.env.RECURRENCE_CATCH_UP_HOURS || 24) * 60 * 60 * 1000;
+
+export interface UpcomingOccurrence {
+  occurrence_date: Date;
+  skipped: boolean;
+  // The occurrence's own post, once it has one
+  post?: WithId<SocialMediaPost>;
+}
+
+// Occurrences are laid out in the series' zone, so they keep their wall-clock time across DST
+function getTimeZone(series: SocialMediaPost): string {
+  return series.timezone ?? getDefaultTimeZone();
+}
+
+// Occurrences after this moment don't have a post yet, unless one was created to edit them
+function getCreatedUntil(series: SocialMediaPost): Date {
+  return series.occurrences_created_until ?? new Date(series.scheduled_date.getTime() - 1);
+}
+
+/**
+ * Creates the post of one occurrence of a series, copying the series' content.
+ * Occurrences of an approved series are approved too; otherwise they start as
+ * drafts. Returns the existing post if the occurrence already has one. The user
+ * is set when someone creates it ahead of time, rather than the trigger when due.
+ */
+async function createOccurrencePost(
+  series: WithId<SocialMediaPost>,
+  occurrenceDate: Date,
+  now: Date,
+  user?: WithId<User>
+): Promise<{ post: WithId<SocialMediaPost>; created: boolean }> {
+  const postsCollection = await getSocialMediaPostsCollection();
+  const approved = series.status === 'approved';
+
+  const occurrence: SocialMediaPost = {
+    post_text: series.post_text,
+    post_media: series.post_media,
+    platform_variants: series.platform_variants,
+    platforms: series.platforms,
+    team: series.team,
+    post_notes: series.post_notes,
+    scheduled_date: occurrenceDate,
+    timezone: series.timezone,
+    series_id: series._id,
+    occurrence_date: occurrenceDate,
+    status: approved ? 'approved' : 'draft',
+    post_links: {},
+    created_at: now,
+    updated_at: now,
+    created_by: series.created_by,
+    updated_by: user ? toUserRef(user) : series.updated_by,
+    approved_by: approved ? series.approved_by : undefined,
+    approved_at: approved ? series.approved_at : undefined,
+  };
+
+  const result = await postsCollection.findOneAndUpdate(
+    { series_id: series._id, occurrence_date: occurrenceDate },
+    { $setOnInsert: occurrence },
+    { upsert: true, returnDocument: 'after', includeResultMetadata: true, ignoreUndefined: true }
+  );
+
+  if (!result.value) {
+    throw new Error(`Failed to create occurrence ${occurrenceDate.toISOString()} of series ${series._id}`);
+  }
+
+  const created = Boolean(result.lastErrorObject?.upserted);
+  if (created) {
+    await recordAuditEvent({
+      post_id: result.value._id,
+      action: 'created',
+      source: user ? 'user' : 'trigger',
+      actor: user && toUserRef(user),
+      to_status: result.value.status,
+      message: `Occurrence of series ${series._id}`,
+    });
+  }
+
+  return { post: result.value, created };
+}
+
+/**
+ * Creates a post for every occurrence of an approved series that has become due,
+ * so the trigger publishes it like any other approved post. Skipped occurrences
+ * and ones due longer ago than the catch-up window are passed over. Returns the
+ * number of occurrence posts created.
+ */
+export async function createDueOccurrences(now: Date = new Date()): Promise<number> {
+  const postsCollection = await getSocialMediaPostsCollection();
+  const seriesList = await postsCollection.find({ status: 'approved', recurrence: { $exists: true } }).toArray();
+  let created = 0;
+
+  for (const series of seriesList) {
+    const recurrence = series.recurrence;
+    if (!recurrence) continue;
+    const dueDates = getOccurrences(series.scheduled_date, getTimeZone(series), recurrence, { after: getCreatedUntil(series), until: now });
+
+    for (const date of dueDates) {
+      if (isSkippedOccurrence(recurrence, date)) continue;
+      if (now.getTime() - date.getTime() > CATCH_UP_MS) {
+        console.warn(`Passed over occurrence ${date.toISOString()} of series ${series._id}: due too long ago`);
+        continue;
+      }
+      if ((await createOccurrencePost(series, date, now)).created) created++;
+    }
+
+    await postsCollection.updateOne({ _id: series._id }, { $set: { occurrences_created_until: now } });
+  }
+
+  return created;
+}
+
+/**
+ * Lists the next occurrences of a series that haven't been created yet, skipped
+ * ones included, with the posts of any that were created early for editing.
+ */
+export async function getUpcomingOccurrences(series: WithId<SocialMediaPost>, limit: number): Promise<UpcomingOccurrence[]> {
+  if (!series.recurrence) return [];
+
+  const recurrence = series.recurrence;
+  const dates = getOccurrences(series.scheduled_date, getTimeZone(series), recurrence, { after: getCreatedUntil(series), limit });
+  const postsCollection = await getSocialMediaPostsCollection();
+  const posts = await postsCollection.find({ series_id: series._id, occurrence_date: { $in: dates } }).toArray();
+
+  return dates.map(date => ({
+    occurrence_date: date,
+    skipped: isSkippedOccurrence(recurrence, date),
+    post: posts.find(post => post.occurrence_date?.getTime() === date.getTime()),
+  }));
+}
+
+/**
+ * Creates the post of an upcoming occurrence ahead of time so it can be edited
+ * on its own. Returns the existing post if there already is one, or an error
+ * message if the date isn't an upcoming, unskipped occurrence of the series.
+ */
+export async function detachOccurrence(
+  series: WithId<SocialMediaPost>,
+  occurrenceDate: Date,
+  user: WithId<User>
+): Promise<WithId<SocialMediaPost> | string> {
+  if (!series.recurrence || !isOccurrence(series.scheduled_date, getTimeZone(series), series.recurrence, occurrenceDate)) {
+    return 'Not an occurrence of this series';
+  }
+  if (isSkippedOccurrence(series.recurrence, occurrenceDate)) {
+    return 'This occurrence is skipped';
+  }
+
+  const postsCollection = await getSocialMediaPostsCollection();
+  const existing = await postsCollection.findOne({ series_id: series._id, occurrence_date: occurrenceDate });
+  if (existing) return existing;
+  if (occurrenceDate <= getCreatedUntil(series)) {
+    return 'This occurrence has already passed';
+  }
+
+  const { post } = await createOccurrencePost(series, occurrenceDate, new Date(), user);
+  return post;
+}
+
+/**
+ * Skips one occurrence of a series, or (skip = false) takes it back. A post
+ * already created for a skipped occurrence is removed unless it went out.
+ * Returns an error message if that isn't possible.
+ */
+export async function setOccurrenceSkipped(
+  series: WithId<SocialMediaPost>,
+  occurrenceDate: Date,
+  skip: boolean,
+  user: WithId<User>
+): Promise<string | null> {
+  if (!series.recurrence || !isOccurrence(series.scheduled_date, getTimeZone(series), series.recurrence, occurrenceDate)) {
+    return 'Not an occurrence of this series';
+  }
+
+  const postsCollection = await getSocialMediaPostsCollection();
+
+  if (skip) {
+    const occurrencePost = await postsCollection.findOne({ series_id: series._id, occurrence_date: occurrenceDate });
+    if (occurrencePost && !UNPUBLISHED_STATUSES.includes(occurrencePost.status)) {
+      return 'This occurrence has already been published';
+    }
+    if (occurrencePost) {
+      await postsCollection.deleteOne({ _id: occurrencePost._id });
+      await recordPostDeleted(occurrencePost, user);
+    }
+  }
+
+  await postsCollection.updateOne(
+    { _id: series._id },
+    skip
+      ? { $addToSet: { 'recurrence.exceptions': occurrenceDate } }
+      : { $pull: { 'recurrence.exceptions': occurrenceDate } }
+  );
+  return null;
+}
@@ -0,0 +1,78 @@
+import { Filter, ObjectId, WithId } from 'mongodb';
+import { getSocialMediaPostsCollection, ReviewEvent, SocialMediaPost } from '@/models/SocialMediaPost';
+import { getTeamSettings, getTeamSettingsCollection } from '@/models/TeamSettings';
+import { User } from '@/models/User';
+import { hasRole } from '@/lib/roles';
+import { toUserRef } from '@/lib/auth';
+
+export type ReviewDecision = 'approve' | 'request_changes';
+
+/**
+ * Whether a user may approve a post or request changes to it. Approvers review
+ * the posts of teams that list them as approvers, or of any team without an
+ * approver list, but never their own posts. Admins may review everything.
+ */
+export async function canReviewPost(user: WithId<User>, post: SocialMediaPost): Promise<boolean> {
+  if (!hasRole(user.role, 'approver')) return false;
+  if (hasRole(user.role, 'admin')) return true;
+  if (post.created_by?.user_id.equals(user._id)) return false;
+
+  const approverIds = (await getTeamSettings(post.team))?.approver_ids ?? [];
+  return approverIds.length === 0 || approverIds.some(id => id.equals(user._id));
+}
+
+/**
+ * Query for the posts waiting for this user's review, following the same rules
+ * as canReviewPost. Returns null for users who can't review at all.
+ */
+export async function getReviewQueueFilter(user: WithId<User>): Promise<Filter<SocialMediaPost> | null> {
+  if (!hasRole(user.role, 'approver')) return null;
+  if (hasRole(user.role, 'admin')) return { status: 'in_review' };
+
+  // Teams whose approver list doesn't include this user
+  const teamSettingsCollection = await getTeamSettingsCollection();
+  const otherTeams = await teamSettingsCollection
+    .find({ 'approver_ids.0': { $exists: true }, approver_ids: { $ne: user._id } }, { projection: { team: 1 } })
+    .toArray();
+
+  return {
+    status: 'in_review',
+    'created_by.user_id': { $ne: user._id },
+    team: { $nin: otherTeams.map(settings => settings.team) },
+  };
+}
+
+export function createReviewEvent(user: WithId<User>, action: ReviewEvent['action'], comment?: string): ReviewEvent {
+  const event: ReviewEvent = { action, user: toUserRef(user), created_at: new Date() };
+  if (comment) event.comment = comment;
+  return event;
+}
+
+/**
+ * Approves a post in review or sends it back with changes requested. Only
+ * succeeds while the post is still in review; returns null otherwise.
+ */
+export async function reviewPost(
+  postId: ObjectId,
+  user: WithId<User>,
+  decision: ReviewDecision,
+  comment?: string
+): Promise<WithId<SocialMediaPost> | null> {
+  const postsCollection = await getSocialMediaPostsCollection();
+  const now = new Date();
+  const event = createReviewEvent(user, decision === 'approve' ? 'approved' : 'changes_requested', comment);
+
+  return postsCollection.findOneAndUpdate(
+    { _id: postId, status: 'in_review' },
+    decision === 'approve'
+      ? {
+          $set: { status: 'approved', approved_by: toUserRef(user), approved_at: now, updated_at: now },
+          $push: { review_history: event },
+        }
+      : {
+          $set: { status: 'changes_requested', updated_at: now },
+          $push: { review_history: event },
+        },
+    { returnDocument: 'after' }
+  );
+}
@@ -0,0 +1,79 @@
+import { isDeepStrictEqual } from 'util';
+import { MongoServerError, ObjectId, WithId } from 'mongodb';
+import { getPostRevisionsCollection, PostRevision, RevisionContent } from '@/models/PostRevision';
+import { normalizeMediaItems, SocialMediaPost } from '@/models/SocialMediaPost';
+import { User } from '@/models/User';
+import { toUserRef } from '@/lib/auth';
+
+// How often saving a revision is retried when a concurrent save took its number
+const MAX_REVISION_NUMBER_RETRIES = 3;
+
+// The revisioned content, with missing media and variants as empty values so
+// snapshots compare equal however the post was saved
+function toRevisionContent(post: RevisionContent): RevisionContent {
+  return {
+    post_text: post.post_text,
+    post_media: normalizeMediaItems(post.post_media),
+    platform_variants: post.platform_variants ?? {},
+    platforms: post.platforms,
+    scheduled_date: post.scheduled_date,
+    timezone: post.timezone,
+    recurrence: post.recurrence,
+  };
+}
+
+async function insertRevision(
+  postId: ObjectId,
+  content: RevisionContent,
+  details: Pick<PostRevision, 'created_by' | 'created_at'>
+): Promise<WithId<PostRevision> | null> {
+  const revisionsCollection = await getPostRevisionsCollection();
+
+  for (let attempt = 0; attempt < MAX_REVISION_NUMBER_RETRIES; attempt++) {
+    const latest = await revisionsCollection.findOne({ post_id: postId }, { sort: { revision: -1 } });
+    if (latest && isDeepStrictEqual(toRevisionContent(latest), content)) return null;
+
+    const revision: PostRevision = { post_id: postId, revision: (latest?.revision ?? 0) + 1, ...content, ...details };
+    try {
+      const result = await revisionsCollection.insertOne(revision, { ignoreUndefined: true });
+      return { ...revision, _id: result.insertedId };
+    } catch (error) {
+      if (!(error instanceof MongoServerError && error.code === 11000)) throw error;
+    }
+  }
+
+  throw new Error(`Could not number a new revision of post ${postId}`);
+}
+
+/**
+ * Saves the content of a post as its next revision, unless it matches the latest
+ * revision. For posts saved before revisions existed, the content before the
+ * edit is saved first so it can be restored. Returns the new revision, if any.
+ */
+export async function recordPostRevision(
+  post: WithId<SocialMediaPost>,
+  user: WithId<User>,
+  previous?: WithId<SocialMediaPost>
+): Promise<WithId<PostRevision> | null> {
+  const revisionsCollection = await getPostRevisionsCollection();
+
+  if (previous && !(await revisionsCollection.findOne({ post_id: post._id }))) {
+    await insertRevision(post._id, toRevisionContent(previous), {
+      created_by: previous.updated_by ?? previous.created_by,
+      created_at: previous.updated_at,
+    });
+  }
+
+  return insertRevision(post._id, toRevisionContent(post), { created_by: toUserRef(user), created_at: post.updated_at });
+}
+
+export async function getPostRevision(postId: ObjectId, revisionId: ObjectId): Promise<WithId<PostRevision> | null> {
+  const revisionsCollection = await getPostRevisionsCollection();
+  return revisionsCollection.findOne({ _id: revisionId, post_id: postId });
+}
+
+export async function deletePostRevisions(postId: ObjectId): Promise<number> {
+  const revisionsCollection = await getPostRevisionsCollection();
+  const result = await revisionsCollection.deleteMany({ post_id: postId });
+  return result.deletedCount;
+}
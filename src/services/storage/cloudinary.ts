@@ -0,0 +1,76 @@
+import { cloudinary, CLOUDINARY_MEDIA_FOLDER } from '@/lib/cloudinary';
+import { getCloudinaryCropUrl, getCloudinaryPublicId } from '@/lib/cloudinaryUrls';
+import { MediaStorage, StoredAsset, StoredMedia } from './types';
+
+interface CloudinaryUploadResult {
+  secure_url: string;
+  public_id: string;
+  width?: number;
+  height?: number;
+  duration?: number;
+}
+
+export const cloudinaryStorage: MediaStorage = {
+  key: 'cloudinary',
+
+  async upload(buffer, metadata): Promise<StoredMedia> {
+    const result = await new Promise<CloudinaryUploadResult>((resolve, reject) => {
+      cloudinary.uploader.upload_stream(
+        { folder: CLOUDINARY_MEDIA_FOLDER, resource_type: metadata.type },
+        (error, result) => {
+          if (error) reject(error);
+          else resolve(result as CloudinaryUploadResult);
+        }
+      ).end(buffer);
+    });
+
+    return {
+      storage_id: result.public_id,
+      url: result.secure_url,
+      width: result.width,
+      height: result.height,
+      duration: result.duration,
+    };
+  },
+
+  async delete(storageId, type) {
+    const result = await cloudinary.uploader.destroy(storageId, { resource_type: type, invalidate: true });
+    if (result.result !== 'ok' && result.result !== 'not found') {
+      throw new Error(`Cloudinary returned '${result.result}'`);
+    }
+  },
+
+  async list() {
+    const assets: StoredAsset[] = [];
+
+    for (const resourceType of ['image', 'video'] as const) {
+      let cursor: string | undefined;
+      do {
+        const page = await cloudinary.api.resources({
+          type: 'upload',
+          resource_type: resourceType,
+          prefix: `${CLOUDINARY_MEDIA_FOLDER}/`,
+          max_results: 500,
+          next_cursor: cursor,
+        });
+
+        for (const resource of page.resources) {
+          assets.push({
+            storage_id: resource.public_id,
+            url: resource.secure_url,
+            type: resourceType,
+            bytes: resource.bytes,
+            created_at: new Date(resource.created_at),
+          });
+        }
+        cursor = page.next_cursor;
+      } while (cursor);
+    }
+
+    return assets;
+  },
+
+  getStorageId: getCloudinaryPublicId,
+
+  getCropUrl: getCloudinaryCropUrl,
+};
@@ -0,0 +1,57 @@
+import { MediaMetadata } from '@/lib/mediaInspection';
+import { MediaItem } from '@/models/SocialMediaPost';
+import { MediaStorage, MediaStorageKey } from './types';
+import { cloudinaryStorage } from './cloudinary';
+import { localDiskStorage } from './local';
+
+export type { MediaStorage, MediaStorageKey, StoredMedia, StoredAsset } from './types';
+export { readLocalMedia } from './local';
+
+const storages: Record<MediaStorageKey, MediaStorage> = {
+  cloudinary: cloudinaryStorage,
+  local: localDiskStorage,
+};
+
+/**
+ * Storage new uploads go to, from MEDIA_STORAGE. Defaults to Cloudinary.
+ */
+export function getMediaStorage(key?: MediaStorageKey): MediaStorage {
+  return storages[key ?? (process.env.MEDIA_STORAGE === 'local' ? 'local' : 'cloudinary')];
+}
+
+/**
+ * Finds the storage a media URL points into, together with the file's storage id.
+ * Returns null for URLs of no known storage (e.g. external links).
+ */
+export function resolveStoredMedia(item: Pick<MediaItem, 'url' | 'storage_id'>): { storage: MediaStorage; storageId: string } | null {
+  for (const storage of Object.values(storages)) {
+    const storageId = storage.getStorageId(item.url);
+    if (storageId) return { storage, storageId: item.storage_id ?? storageId };
+  }
+  return null;
+}
+
+/**
+ * Returns the URL of a stored file cropped to an aspect ratio, or null if its
+ * storage can't crop.
+ */
+export function getMediaCropUrl(url: string, aspectRatio: string): string | null {
+  return resolveStoredMedia({ url })?.storage.getCropUrl(url, aspectRatio) ?? null;
+}
+
+/**
+ * Stores an uploaded file in the configured storage and returns it as a media item.
+ */
+export async function storeMedia(buffer: Buffer, metadata: MediaMetadata): Promise<MediaItem> {
+  const stored = await getMediaStorage().upload(buffer, metadata);
+
+  // The storage fills in what the inspection couldn't read (e.g. WebM duration)
+  return {
+    ...metadata,
+    url: stored.url,
+    storage_id: stored.storage_id,
+    width: metadata.width ?? stored.width,
+    height: metadata.height ?? stored.height,
+    duration: metadata.duration ?? stored.duration,
+  };
+}
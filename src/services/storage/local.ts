@@ -0,0 +1,126 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MediaStorage, StoredAsset } from './types';
+
+// Keeps media on the local disk and serves it through /api/media/files, so the
+// whole flow can run without a Cloudinary account (development, demos, tests).
+
+const LOCAL_MEDIA_DIR = path.resolve(process.env.MEDIA_LOCAL_DIR || 'media-uploads');
+const LOCAL_MEDIA_FOLDER = 'social_media_posts';
+// Absolute URL the app is reachable at; platforms and the dispatcher fetch media from it
+const MEDIA_PUBLIC_URL = (process.env.MEDIA_PUBLIC_URL || 'http://localhost:3000').replace(/\/$/, '');
+const LOCAL_MEDIA_ROUTE = '/api/media/files/';
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.avi': 'video/x-msvideo',
+};
+
+function getExtension(mimeType: string): string {
+  return Object.keys(EXTENSION_MIME_TYPES).find(extension => EXTENSION_MIME_TYPES[extension] === mimeType) ?? '';
+}
+
+function getMimeType(storageId: string): string {
+  return EXTENSION_MIME_TYPES[path.extname(storageId).toLowerCase()] ?? 'application/octet-stream';
+}
+
+// Maps a storage id to its file, refusing ids that point outside the media directory
+function resolveFilePath(storageId: string): string | null {
+  const filePath = path.resolve(LOCAL_MEDIA_DIR, storageId);
+  return filePath.startsWith(LOCAL_MEDIA_DIR + path.sep) ? filePath : null;
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Reads a locally stored file for serving. Returns null if there is no such file.
+ */
+export async function readLocalMedia(storageId: string): Promise<{ buffer: Buffer; mime_type: string } | null> {
+  const filePath = resolveFilePath(storageId);
+  if (!filePath) return null;
+
+  try {
+    return { buffer: await fs.readFile(filePath), mime_type: getMimeType(storageId) };
+  } catch (error) {
+    if (isMissingFile(error)) return null;
+    throw error;
+  }
+}
+
+export const localDiskStorage: MediaStorage = {
+  key: 'local',
+
+  async upload(buffer, metadata) {
+    const storageId = `${LOCAL_MEDIA_FOLDER}/${randomUUID()}${getExtension(metadata.mime_type)}`;
+    const filePath = resolveFilePath(storageId) as string;
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, buffer);
+
+    return { storage_id: storageId, url: `${MEDIA_PUBLIC_URL}${LOCAL_MEDIA_ROUTE}${storageId}` };
+  },
+
+  async delete(storageId) {
+    const filePath = resolveFilePath(storageId);
+    if (!filePath) throw new Error(`Invalid storage id '${storageId}'`);
+
+    try {
+      await fs.unlink(filePath);
+    } catch (error) {
+      if (!isMissingFile(error)) throw error;
+    }
+  },
+
+  async list() {
+    let names: string[];
+    try {
+      names = await fs.readdir(path.join(LOCAL_MEDIA_DIR, LOCAL_MEDIA_FOLDER));
+    } catch (error) {
+      if (isMissingFile(error)) return [];
+      throw error;
+    }
+
+    const assets: StoredAsset[] = [];
+    for (const name of names) {
+      const storageId = `${LOCAL_MEDIA_FOLDER}/${name}`;
+      const stats = await fs.stat(path.join(LOCAL_MEDIA_DIR, storageId));
+      if (!stats.isFile()) continue;
+
+      assets.push({
+        storage_id: storageId,
+        url: `${MEDIA_PUBLIC_URL}${LOCAL_MEDIA_ROUTE}${storageId}`,
+        type: getMimeType(storageId).startsWith('video/') ? 'video' : 'image',
+        bytes: stats.size,
+        created_at: stats.birthtime.getTime() > 0 ? stats.birthtime : stats.mtime,
+      });
+    }
+    return assets;
+  },
+
+  getStorageId(url) {
+    // Matched on the path only, so files keep resolving if MEDIA_PUBLIC_URL changes
+    let pathname: string;
+    try {
+      pathname = new URL(url, MEDIA_PUBLIC_URL).pathname;
+    } catch {
+      return null;
+    }
+    if (!pathname.startsWith(LOCAL_MEDIA_ROUTE)) return null;
+    return decodeURIComponent(pathname.slice(LOCAL_MEDIA_ROUTE.length)) || null;
+  },
+
+  // Files are served as uploaded; there is no image processing to crop them with
+  getCropUrl() {
+    return null;
+  },
+};
@@ -0,0 +1,41 @@
+import { MediaKind } from '@/lib/platforms';
+import { MediaMetadata } from '@/lib/mediaInspection';
+
+export type MediaStorageKey = 'cloudinary' | 'local';
+
+// Where an uploaded file ended up
+export interface StoredMedia {
+  storage_id: string;
+  url: string;
+  // Filled in by storages that read them while storing (e.g. WebM duration)
+  width?: number;
+  height?: number;
+  duration?: number;
+}
+
+// A file found when listing a storage
+export interface StoredAsset {
+  storage_id: string;
+  url: string;
+  type: MediaKind;
+  bytes: number;
+  created_at: Date;
+}
+
+/**
+ * Somewhere post media files are kept and served from.
+ * Methods throw on failure.
+ */
+export interface MediaStorage {
+  key: MediaStorageKey;
+  /** Stores a file inspected by inspectMedia. */
+  upload(buffer: Buffer, metadata: MediaMetadata): Promise<StoredMedia>;
+  /** Removes a stored file. Files that are already gone are ignored. */
+  delete(storageId: string, type: MediaKind): Promise<void>;
+  /** Lists every post media file in the storage. */
+  list(): Promise<StoredAsset[]>;
+  /** Returns the storage id behind a URL this storage serves, or null for other URLs. */
+  getStorageId(url: string): string | null;
+  /** Returns a URL of the file cropped to an aspect ratio, or null if the storage can't crop it. */
+  getCropUrl(url: string, aspectRatio: string): string | null;
+}